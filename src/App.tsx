@@ -1,33 +1,272 @@
-import { useState, useRef, useEffect } from 'react';
-import type { CellValue, DrawMode, GridSize, Position, ColorTheme } from '@/types';
-import { createEmptyGrid, createFullWallGrid, updateCell } from '@/utils/gridUtils';
+import { useState, useRef, useEffect, useMemo } from 'react';
+import type { CellValue, DrawMode, GridSize, Marker, Theme, ImportStatus, SolverOverlay, EditorSnapshot, GenerationInfo, MazeDocument, BrushOptions, DrawTool, Position, SelectionRect, PostProcessOptions, GridLayout, WallGrid } from '@/types';
+import { createEmptyGrid, createFullWallGrid, updateCell, updateCells } from '@/utils/gridUtils';
+import { importMaze } from '@/utils/importUtils';
+import type { TextMapping } from '@/utils/textFormat';
+import { DEFAULT_TEXT_MAPPING } from '@/utils/textFormat';
+import { randomSeed } from '@/utils/random';
+import { getCellForMode } from '@/utils/cellTypes';
+import { GOAL_PREFIX, START_PREFIX, placeMarker } from '@/utils/markerUtils';
+import { copyRegion, fillRegion, getPasteSelection, pasteRegion, selectionFitsGrid } from '@/utils/selectionUtils';
+import type { GridTransform } from '@/utils/transformUtils';
+import { transformCells, transformMarkers } from '@/utils/transformUtils';
+import type { HistoryState } from '@/utils/history';
 import { 
-  generateRandomMaze, 
-  generateMazeDFS, 
-  generateMazePrim, 
-  generateMazeKruskal, 
-  generateMazeBinaryTree 
-} from '@/utils/mazeGenerators';
+  DEFAULT_HISTORY_LIMIT,
+  createHistory, 
+  pushHistory, 
+  undoHistory, 
+  redoHistory, 
+  trimHistory, 
+  snapshotsEqual 
+} from '@/utils/history';
+import { generateRandomMaze } from '@/utils/mazeGenerators';
+import type { MazeAlgorithm } from '@/utils/mazeAlgorithms';
+import { getMazeAlgorithm, resolveAlgorithmParams } from '@/utils/mazeAlgorithms';
+import { DEFAULT_POST_PROCESS, applyPostProcessing, hasPostProcessing } from '@/utils/postProcessing';
+import type { MarkerPlacementOptions } from '@/utils/markerPlacement';
+import { DEFAULT_MARKER_PLACEMENT, placeMarkers } from '@/utils/markerPlacement';
+import { AUTOSAVE_DELAY_MS, loadAutosave, saveAutosave } from '@/utils/mazeStorage';
+import { decodeShareHash, isShareHash } from '@/utils/shareLink';
+import { loadTheme, saveTheme } from '@/utils/themes';
+import type { WallEdge } from '@/utils/edgeMaze';
+import {
+  blocksToEdges,
+  createWallGrid,
+  edgesToBlocks,
+  getConvertedSize,
+  setWall,
+  toBlockDocument,
+  toBlockMarkers,
+  toEdgeDocument,
+  toEdgeMarkers,
+  toEdgeOverlay
+} from '@/utils/edgeMaze';
+import { generateRandomWalls } from '@/utils/edgeGenerators';
 import GridCanvas from '@/components/GridCanvas';
 import Toolbar from '@/components/Toolbar';
 import ExportPanel from '@/components/ExportPanel';
+import SolverPanel from '@/components/SolverPanel';
+import AnalysisPanel from '@/components/AnalysisPanel';
+import MarkerPanel from '@/components/MarkerPanel';
+import TransformPanel from '@/components/TransformPanel';
+import LibraryPanel from '@/components/LibraryPanel';
+import ThemePanel from '@/components/ThemePanel';
 
 function App() {
   const [gridSize, setGridSize] = useState<GridSize>({ rows: 10, cols: 10 });
   const [grid, setGrid] = useState<CellValue[][]>(() => createEmptyGrid(gridSize));
-  const [startPos, setStartPos] = useState<Position | null>(null);
-  const [goalPos, setGoalPos] = useState<Position | null>(null);
+  // non-null while editing a thin-wall maze
+  const [walls, setWalls] = useState<WallGrid | null>(null);
+  const [starts, setStarts] = useState<Marker[]>([]);
+  const [goals, setGoals] = useState<Marker[]>([]);
+  const [generation, setGeneration] = useState<GenerationInfo | null>(null);
   const [drawMode, setDrawMode] = useState<DrawMode>('wall');
+  const [drawTool, setDrawTool] = useState<DrawTool>('brush');
+  const [brush, setBrush] = useState<BrushOptions>({ direction: 'right', pair: 0 });
   const [isPainting, setIsPainting] = useState(false);
-  const [colors] = useState<ColorTheme>({
-    wall: '#000000',
-    walkable: '#ffffff',
-    start: '#ef4444',
-    goal: '#22c55e',
-    grid: '#e5e7eb'
-  });
+  const [importStatus, setImportStatus] = useState<ImportStatus | null>(null);
+  const [solverOverlay, setSolverOverlay] = useState<SolverOverlay | null>(null);
+  const [analysisHighlight, setAnalysisHighlight] = useState<Position[] | null>(null);
+  const [history, setHistory] = useState<HistoryState>(createHistory);
+  const [historyLimit, setHistoryLimit] = useState(DEFAULT_HISTORY_LIMIT);
+  const [selection, setSelection] = useState<SelectionRect | null>(null);
+  const [clipboard, setClipboard] = useState<CellValue[][] | null>(null);
+  const [postProcess, setPostProcess] = useState<PostProcessOptions>(DEFAULT_POST_PROCESS);
+  const [markerPlacement, setMarkerPlacement] = useState<MarkerPlacementOptions>(DEFAULT_MARKER_PLACEMENT);
+  const [textMapping, setTextMapping] = useState<TextMapping>(DEFAULT_TEXT_MAPPING);
+  const [libraryId, setLibraryId] = useState<string | null>(null);
+  // autosave stays off until the previous session has been restored, so it is not overwritten
+  const [isRestored, setIsRestored] = useState(false);
+  const [theme, setTheme] = useState<Theme>(loadTheme);
+  const colors = theme.colors;
+  const layout: GridLayout = walls ? 'edges' : 'blocks';
+
+  // the solver searches thin-wall mazes as their block equivalent, so its overlay is mapped back to cells
+  const canvasOverlay = useMemo(
+    () => (walls && solverOverlay ? toEdgeOverlay(solverOverlay) : solverOverlay),
+    [walls, solverOverlay]
+  );
 
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  // state at the start of the current drag stroke, committed as one history entry on paint end
+  const strokeSnapshot = useRef<EditorSnapshot | null>(null);
+  const strokeStarted = useRef(false);
+  // cell under the pointer, where pasted regions land
+  const hoverCell = useRef<Position | null>(null);
+
+  // the grid's own dimensions; a generated maze can be a row and column smaller than `gridSize` asked for
+  const gridRows = grid.length;
+  const gridCols = grid[0]?.length || 0;
+
+  // a selection left over from a larger grid (undo, import, resize) is ignored
+  const activeSelection = selection && selectionFitsGrid(selection, gridRows, gridCols) ? selection : null;
+
+  const takeSnapshot = (): EditorSnapshot => ({ gridSize, grid, starts, goals, generation, walls });
+
+  const applySnapshot = (snapshot: EditorSnapshot) => {
+    setGridSize(snapshot.gridSize);
+    setGrid(snapshot.grid);
+    setStarts(snapshot.starts);
+    setGoals(snapshot.goals);
+    setGeneration(snapshot.generation ?? null);
+    setWalls(snapshot.walls ?? null);
+  };
+
+  const recordHistory = () => {
+    setHistory(pushHistory(history, takeSnapshot(), historyLimit));
+  };
+
+  const handleUndo = () => {
+    if (isPainting) return;
+    const result = undoHistory(history, takeSnapshot());
+    if (!result) return;
+    setHistory(result.history);
+    applySnapshot(result.snapshot);
+  };
+
+  const handleRedo = () => {
+    if (isPainting) return;
+    const result = redoHistory(history, takeSnapshot());
+    if (!result) return;
+    setHistory(result.history);
+    applySnapshot(result.snapshot);
+  };
+
+  const handleHistoryLimitChange = (limit: number) => {
+    setHistoryLimit(limit);
+    setHistory(trimHistory(history, limit));
+  };
+
+  const handleImportDocument = (doc: MazeDocument, source: string) => {
+    const rows = doc.grid.length;
+    const cols = doc.grid[0].length;
+
+    recordHistory();
+    setLibraryId(null);
+    setGridSize({ rows, cols });
+    setGrid(doc.grid);
+    setWalls(doc.walls ?? null);
+    setStarts(doc.starts);
+    setGoals(doc.goals);
+    setGeneration(doc.generation ?? null);
+    setImportStatus({ type: 'success', message: `Imported ${rows}x${cols} maze from ${source}` });
+  };
+
+  const handleImportText = (text: string, source: string) => {
+    try {
+      handleImportDocument(importMaze(text, textMapping), source);
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      setImportStatus({ type: 'error', message: `Could not import ${source}: ${reason}` });
+    }
+  };
+
+  const handleImportFile = async (file: File) => {
+    if (file.type.startsWith('image/')) {
+      setImportStatus({ type: 'error', message: `${file.name} is an image; use "Open image" in the Import section to convert it` });
+      return;
+    }
+    try {
+      handleImportText(await file.text(), file.name);
+    } catch {
+      setImportStatus({ type: 'error', message: `Could not read ${file.name}` });
+    }
+  };
+
+  const importDocumentRef = useRef(handleImportDocument);
+  importDocumentRef.current = handleImportDocument;
+
+  // a maze in the url hash wins over the autosave; the hash is cleared once read so a reload keeps later edits
+  useEffect(() => {
+    const openSharedMaze = async () => {
+      try {
+        importDocumentRef.current(await decodeShareHash(window.location.hash), 'shared link');
+      } catch (err) {
+        const reason = err instanceof Error ? err.message : String(err);
+        setImportStatus({ type: 'error', message: `Could not open the shared link: ${reason}` });
+      }
+      window.history.replaceState(null, '', window.location.pathname + window.location.search);
+    };
+
+    const restore = async () => {
+      if (isShareHash(window.location.hash)) {
+        await openSharedMaze();
+        return;
+      }
+
+      const saved = await loadAutosave();
+      if (!saved) return;
+      setGridSize({ rows: saved.doc.grid.length, cols: saved.doc.grid[0].length });
+      setGrid(saved.doc.grid);
+      setWalls(saved.doc.walls ?? null);
+      setStarts(saved.doc.starts);
+      setGoals(saved.doc.goals);
+      setGeneration(saved.doc.generation ?? null);
+      setLibraryId(saved.libraryId);
+    };
+
+    restore()
+      .catch((err) => console.error('Could not restore the autosaved maze:', err))
+      .finally(() => setIsRestored(true));
+
+    // pasting a share link into the address bar of an open editor only changes the hash
+    const handleHashChange = () => {
+      if (isShareHash(window.location.hash)) {
+        openSharedMaze();
+      }
+    };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  useEffect(() => {
+    saveTheme(theme);
+  }, [theme]);
+
+  useEffect(() => {
+    if (!isRestored) return;
+    const timer = setTimeout(() => {
+      saveAutosave({ grid, starts, goals, generation, walls }, libraryId)
+        .catch((err) => console.error('Autosave failed:', err));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [isRestored, grid, starts, goals, generation, walls, libraryId]);
+
+  // ctrl+v anywhere outside a text field imports a pasted maze
+  const importTextRef = useRef(handleImportText);
+  importTextRef.current = handleImportText;
+
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) {
+        return;
+      }
+
+      const text = e.clipboardData?.getData('text/plain');
+      if (text) {
+        e.preventDefault();
+        importTextRef.current(text, 'clipboard');
+      }
+    };
+
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, []);
+
+  const historyActionsRef = useRef({ undo: handleUndo, redo: handleRedo });
+  historyActionsRef.current = { undo: handleUndo, redo: handleRedo };
+
+  // selection shortcuts only apply in select mode; each reports whether it did anything
+  const isSelecting = drawMode === 'select';
+  const selectionActions = {
+    c: () => isSelecting && handleCopySelection(),
+    x: () => isSelecting && handleCutSelection(),
+    v: () => isSelecting && handlePasteSelection(),
+    clear: () => isSelecting && handleClearSelection(),
+  };
+  const selectionActionsRef = useRef(selectionActions);
+  selectionActionsRef.current = selectionActions;
 
   useEffect(() => {
     const handleKeyPress = (e: KeyboardEvent) => {
@@ -35,6 +274,24 @@ function App() {
         return;
       }
 
+      if ((e.ctrlKey || e.metaKey) && !e.altKey) {
+        const key = e.key.toLowerCase();
+        if (key === 'z' && !e.shiftKey) {
+          historyActionsRef.current.undo();
+          e.preventDefault();
+        } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+          historyActionsRef.current.redo();
+          e.preventDefault();
+        } else if (key === 'c' || key === 'x' || key === 'v') {
+          // only claim the shortcut when there is something to copy or paste,
+          // so ctrl+v still imports a maze from the clipboard otherwise
+          if (selectionActionsRef.current[key]()) {
+            e.preventDefault();
+          }
+        }
+        return;
+      }
+
       if (!e.ctrlKey && !e.metaKey && !e.altKey && !e.shiftKey) {
         switch (e.key.toLowerCase()) {
           case 'w':
@@ -53,6 +310,39 @@ function App() {
             setDrawMode('goal');
             e.preventDefault();
             break;
+          case 't':
+            setDrawMode('trap');
+            e.preventDefault();
+            break;
+          case 'r':
+            setDrawMode('terrain');
+            e.preventDefault();
+            break;
+          case 'o':
+            setDrawMode('oneway');
+            e.preventDefault();
+            break;
+          case 'd':
+            setDrawMode('door');
+            e.preventDefault();
+            break;
+          case 'k':
+            setDrawMode('key');
+            e.preventDefault();
+            break;
+          case 'm':
+            setDrawMode('select');
+            e.preventDefault();
+            break;
+          case 'delete':
+          case 'backspace':
+            if (selectionActionsRef.current.clear()) {
+              e.preventDefault();
+            }
+            break;
+          case 'escape':
+            setSelection(null);
+            break;
         }
       }
     };
@@ -61,77 +351,256 @@ function App() {
     return () => window.removeEventListener('keydown', handleKeyPress);
   }, []);
 
-  const handleCellInteract = (row: number, col: number) => {
-    if (drawMode === 'start') {
-      setStartPos({ row, col });
-    } else if (drawMode === 'goal') {
-      setGoalPos({ row, col });
-    } else if (drawMode === 'wall') {
-      setGrid(updateCell(grid, row, col, 0));
-    } else if (drawMode === 'walkable') {
-      setGrid(updateCell(grid, row, col, 1));
+  // with the modifier held, a click adds (or removes) a marker; dragging never adds more
+  const handleCellInteract = (row: number, col: number, additive: boolean) => {
+    const isStrokeStart = strokeStarted.current;
+    strokeStarted.current = false;
+
+    if (drawMode === 'start' || drawMode === 'goal') {
+      if (additive && !isStrokeStart) return;
+
+      if (drawMode === 'start') {
+        setStarts(placeMarker(starts, { row, col }, START_PREFIX, additive));
+      } else {
+        setGoals(placeMarker(goals, { row, col }, GOAL_PREFIX, additive));
+      }
+    } else {
+      const value = getCellForMode(drawMode, brush);
+      if (value !== null) {
+        // several cells can be painted per mouse event when a fast drag is interpolated
+        setGrid(current => updateCell(current, row, col, value));
+      }
     }
   };
 
   const handleCellRightClick = (row: number, col: number) => {
-    setGrid(updateCell(grid, row, col, 1));
+    setGrid(current => updateCell(current, row, col, 1));
+  };
+
+  const handleWallChange = (edge: WallEdge, present: boolean) => {
+    setWalls(current => current && setWall(current, edge, present));
+  };
+
+  const handlePaintStart = () => {
+    strokeSnapshot.current = takeSnapshot();
+    strokeStarted.current = true;
+    setIsPainting(true);
   };
 
-  const handlePaintStart = () => setIsPainting(true);
-  const handlePaintEnd = () => setIsPainting(false);
+  const handlePaintEnd = () => {
+    const before = strokeSnapshot.current;
+    strokeSnapshot.current = null;
+    setIsPainting(false);
+
+    if (before && !snapshotsEqual(before, takeSnapshot())) {
+      setHistory(pushHistory(history, before, historyLimit));
+      // a hand-edited grid no longer matches its recorded seed
+      if (before.grid !== grid || (before.walls ?? null) !== walls) {
+        setGeneration(null);
+      }
+    }
+  };
 
   const handleGridSizeChange = (newSize: GridSize) => {
+    recordHistory();
     setGridSize(newSize);
     setGrid(createEmptyGrid(newSize));
-    setStartPos(null);
-    setGoalPos(null);
+    setWalls(walls && createWallGrid(newSize, false));
+    setStarts([]);
+    setGoals([]);
+    setGeneration(null);
   };
 
-  const handleGenerateRandom = (density: number) => {
-    const newGrid = generateRandomMaze(gridSize, density);
-    setGrid(newGrid);
-    setStartPos(null);
-    setGoalPos(null);
-  };
-
-  const handleGenerateMaze = (algorithm: 'dfs' | 'prim' | 'kruskal' | 'binary') => {
-    let newGrid: CellValue[][];
-    
-    switch (algorithm) {
-      case 'dfs':
-        newGrid = generateMazeDFS(gridSize);
-        break;
-      case 'prim':
-        newGrid = generateMazePrim(gridSize);
-        break;
-      case 'kruskal':
-        newGrid = generateMazeKruskal(gridSize);
-        break;
-      case 'binary':
-        newGrid = generateMazeBinaryTree(gridSize);
-        break;
+  // post-processing and marker placement only handle block grids, so a thin-wall maze takes a
+  // round trip through its block equivalent. The way back drops the blocks between four cells,
+  // which rooms, loops and sparsifying can open, so markers are placed on the converted maze
+  const applyGeneratedMaze = (blocks: CellValue[][], seed: number, info: GenerationInfo) => {
+    // post-processing reuses the maze seed, so the seed alone reproduces the final grid
+    const newGrid = applyPostProcessing(blocks, postProcess, seed);
+    const edges = walls ? blocksToEdges(newGrid) : null;
+    const previous = walls ? { starts: toBlockMarkers(starts), goals: toBlockMarkers(goals) } : { starts, goals };
+    const markers = edges
+      ? placeMarkers(edgesToBlocks(edges.grid, edges.walls), markerPlacement, seed, previous, 2)
+      : placeMarkers(newGrid, markerPlacement, seed, previous);
+
+    recordHistory();
+    // block generators shrink even sizes by one, so the size follows the grid they produced
+    if (edges) {
+      setGridSize({ rows: edges.grid.length, cols: edges.grid[0].length });
+      setGrid(edges.grid);
+      setWalls(edges.walls);
+      setStarts(toEdgeMarkers(markers.starts));
+      setGoals(toEdgeMarkers(markers.goals));
+    } else {
+      setGridSize({ rows: newGrid.length, cols: newGrid[0].length });
+      setGrid(newGrid);
+      setStarts(markers.starts);
+      setGoals(markers.goals);
     }
-    
-    setGrid(newGrid);
-    setStartPos(null);
-    setGoalPos(null);
+    setGeneration({
+      ...info,
+      ...(hasPostProcessing(postProcess) && { postProcess })
+    });
+  };
+
+  // without an explicit seed a fresh one is drawn, so every generated maze can be reproduced
+  const handleGenerateRandom = (density: number, requestedSeed?: number) => {
+    const seed = requestedSeed ?? randomSeed();
+    const blocks = walls
+      ? edgesToBlocks(createEmptyGrid(gridSize), generateRandomWalls(gridSize, density, seed))
+      : generateRandomMaze(gridSize, density, seed);
+    applyGeneratedMaze(blocks, seed, { algorithm: 'random', seed, params: { wallDensity: density } });
+  };
+
+  // algorithms without a thin-wall version are generated at the matching block size and converted
+  const handleGenerateMaze = (algorithm: MazeAlgorithm, requestedSeed?: number, requestedParams?: Record<string, number>) => {
+    const seed = requestedSeed ?? randomSeed();
+    const info = getMazeAlgorithm(algorithm);
+    const params = resolveAlgorithmParams(info, requestedParams);
+    let blocks: CellValue[][];
+    if (!walls) {
+      blocks = info.generate(gridSize, seed, params);
+    } else if (info.generateEdges) {
+      blocks = edgesToBlocks(createEmptyGrid(gridSize), info.generateEdges(gridSize, seed, params));
+    } else {
+      blocks = info.generate(getConvertedSize(gridSize, 'blocks'), seed, params);
+    }
+
+    applyGeneratedMaze(blocks, seed, {
+      algorithm,
+      seed,
+      ...(info.params.length > 0 && { params })
+    });
   };
 
   const handleClearGrid = () => {
+    recordHistory();
     setGrid(createEmptyGrid(gridSize));
-    setStartPos(null);
-    setGoalPos(null);
+    setWalls(walls && createWallGrid(gridSize, false));
+    setStarts([]);
+    setGoals([]);
+    setGeneration(null);
   };
 
+  // on a thin-wall grid this closes every cell off instead of filling the cells
   const handleFillWalls = () => {
-    setGrid(createFullWallGrid(gridSize));
-    setStartPos(null);
-    setGoalPos(null);
+    recordHistory();
+    if (walls) {
+      setGrid(createEmptyGrid(gridSize));
+      setWalls(createWallGrid(gridSize, true));
+    } else {
+      setGrid(createFullWallGrid(gridSize));
+    }
+    setStarts([]);
+    setGoals([]);
+    setGeneration(null);
+  };
+
+  const handleLayoutChange = (newLayout: GridLayout) => {
+    if (newLayout === layout) return;
+
+    const doc = { grid, starts, goals, walls };
+    const converted = newLayout === 'edges' ? toEdgeDocument(doc) : toBlockDocument(doc);
+    recordHistory();
+    setGridSize({ rows: converted.grid.length, cols: converted.grid[0].length });
+    setGrid(converted.grid);
+    setWalls(converted.walls ?? null);
+    setStarts(converted.starts);
+    setGoals(converted.goals);
+    setGeneration(null);
+    setSelection(null);
+  };
+
+  const handleMarkersChange = (kind: 'start' | 'goal', markers: Marker[]) => {
+    recordHistory();
+    if (kind === 'start') {
+      setStarts(markers);
+    } else {
+      setGoals(markers);
+    }
   };
 
   const handleClearMarkers = () => {
-    setStartPos(null);
-    setGoalPos(null);
+    recordHistory();
+    setStarts([]);
+    setGoals([]);
+  };
+
+  const editGrid = (newGrid: CellValue[][]) => {
+    recordHistory();
+    setGrid(newGrid);
+    setGeneration(null);
+  };
+
+  // right-button shapes erase to walkable, like right-click painting
+  const handleShapeCommit = (cells: Position[], erase: boolean) => {
+    const value = erase ? 1 : getCellForMode(drawMode, brush);
+    if (value === null) return;
+
+    const newGrid = updateCells(grid, cells, value);
+    if (newGrid !== grid) {
+      editGrid(newGrid);
+    }
+  };
+
+  const handleCopySelection = () => {
+    if (!activeSelection) return false;
+    setClipboard(copyRegion(grid, activeSelection));
+    return true;
+  };
+
+  const handleCutSelection = () => {
+    if (!activeSelection) return false;
+    setClipboard(copyRegion(grid, activeSelection));
+    editGrid(fillRegion(grid, activeSelection, 1));
+    return true;
+  };
+
+  // pastes at the cell under the pointer, falling back to the selection's corner
+  const handlePasteSelection = () => {
+    if (!clipboard) return false;
+
+    const at = hoverCell.current ?? (activeSelection
+      ? { row: activeSelection.top, col: activeSelection.left }
+      : { row: 0, col: 0 });
+    editGrid(pasteRegion(grid, clipboard, at));
+    setSelection(getPasteSelection(clipboard, at, gridRows, gridCols));
+    return true;
+  };
+
+  const handleFillSelection = () => {
+    if (!activeSelection) return;
+    editGrid(fillRegion(grid, activeSelection, 0));
+  };
+
+  const handleClearSelection = () => {
+    if (!activeSelection) return false;
+    editGrid(fillRegion(grid, activeSelection, 1));
+    return true;
+  };
+
+  // the transformed block is anchored at the selection's top-left corner; whatever
+  // a rotation no longer covers is cleared
+  const handleTransformSelection = (transform: GridTransform) => {
+    if (!activeSelection) return;
+
+    const cells = transformCells(copyRegion(grid, activeSelection), transform);
+    const at = { row: activeSelection.top, col: activeSelection.left };
+    editGrid(pasteRegion(fillRegion(grid, activeSelection, 1), cells, at));
+    setSelection(getPasteSelection(cells, at, gridRows, gridCols));
+  };
+
+  const handleTransformGrid = (transform: GridTransform) => {
+    const newGrid = transformCells(grid, transform);
+    editGrid(newGrid);
+    // turning the block equivalent turns each cell's walls with it
+    if (walls) {
+      setWalls(blocksToEdges(transformCells(edgesToBlocks(grid, walls), transform)).walls);
+    }
+    setGridSize({ rows: newGrid.length, cols: newGrid[0].length });
+    setStarts(transformMarkers(starts, gridRows, gridCols, transform));
+    setGoals(transformMarkers(goals, gridRows, gridCols, transform));
+    setSelection(null);
   };
 
   return (
@@ -147,14 +616,70 @@ function App() {
           <div className="flex flex-col gap-6 overflow-y-auto pr-2">
             <Toolbar 
               drawMode={drawMode}
+              drawTool={drawTool}
+              brush={brush}
               gridSize={gridSize}
+              layout={layout}
               onModeChange={setDrawMode}
+              onToolChange={setDrawTool}
+              onBrushChange={setBrush}
               onGridSizeChange={handleGridSizeChange}
+              onLayoutChange={handleLayoutChange}
               onGenerateRandom={handleGenerateRandom}
               onGenerateMaze={handleGenerateMaze}
+              postProcess={postProcess}
+              onPostProcessChange={setPostProcess}
+              markerPlacement={markerPlacement}
+              onMarkerPlacementChange={setMarkerPlacement}
               onClearGrid={handleClearGrid}
               onFillWalls={handleFillWalls}
               onClearMarkers={handleClearMarkers}
+              canUndo={history.past.length > 0}
+              canRedo={history.future.length > 0}
+              historyLimit={historyLimit}
+              onUndo={handleUndo}
+              onRedo={handleRedo}
+              onHistoryLimitChange={handleHistoryLimitChange}
+              lastSeed={generation?.seed ?? null}
+            />
+            <TransformPanel
+              selection={activeSelection}
+              canPaste={clipboard !== null}
+              onCopy={handleCopySelection}
+              onCut={handleCutSelection}
+              onPaste={handlePasteSelection}
+              onFillSelection={handleFillSelection}
+              onClearSelection={handleClearSelection}
+              onTransformSelection={handleTransformSelection}
+              onTransformGrid={handleTransformGrid}
+            />
+            <MarkerPanel
+              starts={starts}
+              goals={goals}
+              colors={colors}
+              onMarkersChange={handleMarkersChange}
+            />
+            <SolverPanel
+              grid={grid}
+              starts={starts}
+              goals={goals}
+              walls={walls}
+              onOverlayChange={setSolverOverlay}
+            />
+            <AnalysisPanel
+              grid={grid}
+              starts={starts}
+              goals={goals}
+              walls={walls}
+              onHighlightChange={setAnalysisHighlight}
+            />
+            <ThemePanel theme={theme} onThemeChange={setTheme} />
+            <LibraryPanel
+              doc={{ grid, starts, goals, generation, walls }}
+              colors={colors}
+              currentId={libraryId}
+              onCurrentIdChange={setLibraryId}
+              onOpen={(doc, name) => handleImportDocument(doc, `library maze "${name}"`)}
             />
           </div>
 
@@ -165,14 +690,26 @@ function App() {
               <GridCanvas
                 ref={canvasRef}
                 grid={grid}
-                startPos={startPos}
-                goalPos={goalPos}
-                colors={colors}
+                walls={walls}
+                starts={starts}
+                goals={goals}
+                theme={theme}
+                overlay={canvasOverlay}
+                highlight={analysisHighlight}
+                drawMode={drawMode}
+                drawTool={drawTool}
+                paintValue={getCellForMode(drawMode, brush)}
+                selection={drawMode === 'select' ? activeSelection : null}
                 isPainting={isPainting}
                 onCellInteract={handleCellInteract}
                 onCellRightClick={handleCellRightClick}
                 onPaintStart={handlePaintStart}
                 onPaintEnd={handlePaintEnd}
+                onFileDrop={handleImportFile}
+                onSelectionChange={setSelection}
+                onCellHover={(cell) => { hoverCell.current = cell; }}
+                onShapeCommit={handleShapeCommit}
+                onWallChange={handleWallChange}
               />
             </div>
 
@@ -181,9 +718,21 @@ function App() {
               <div className="w-full max-w-2xl">
                 <ExportPanel
                   grid={grid}
-                  startPos={startPos}
-                  goalPos={goalPos}
+                  starts={starts}
+                  goals={goals}
+                  walls={walls}
+                  generation={generation}
+                  postProcess={postProcess}
+                  markerPlacement={markerPlacement}
+                  textMapping={textMapping}
+                  onTextMappingChange={setTextMapping}
                   canvasRef={canvasRef}
+                  theme={theme}
+                  importStatus={importStatus}
+                  onImportText={handleImportText}
+                  onImportFile={handleImportFile}
+                  onImportDocument={handleImportDocument}
+                  onImportError={(message) => setImportStatus({ type: 'error', message })}
                 />
               </div>
             </div>
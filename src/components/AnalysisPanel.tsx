@@ -0,0 +1,106 @@
+import { useEffect, useState } from 'react';
+import type { CellValue, Marker, Position, WallGrid } from '@/types';
+import type { MazeAnalysis } from '@/utils/mazeAnalysis';
+import { analyzeMaze } from '@/utils/mazeAnalysis';
+
+interface AnalysisPanelProps {
+  grid: CellValue[][];
+  starts: Marker[];
+  goals: Marker[];
+  walls: WallGrid | null;
+  onHighlightChange: (cells: Position[] | null) => void;
+}
+
+function AnalysisPanel({ grid, starts, goals, walls, onHighlightChange }: AnalysisPanelProps) {
+  const [analysis, setAnalysis] = useState<MazeAnalysis | null>(null);
+  const [showUnreachable, setShowUnreachable] = useState(true);
+
+  // analysing a large grid takes a moment, so it runs on request and any edit clears it
+  useEffect(() => {
+    setAnalysis(null);
+  }, [grid, starts, goals, walls]);
+
+  useEffect(() => {
+    const unreachable = analysis?.unreachable;
+    onHighlightChange(showUnreachable && unreachable && unreachable.length > 0 ? unreachable : null);
+  }, [analysis, showUnreachable, onHighlightChange]);
+
+  const formatNumber = (value: number | null, digits = 2) => (value === null ? '–' : value.toFixed(digits));
+
+  const rows: { label: string; value: string; title?: string }[] = analysis ? [
+    { label: 'Open cells', value: String(analysis.openCells) },
+    { label: 'Connected regions', value: String(analysis.components) },
+    {
+      label: 'Unreachable from start',
+      value: analysis.unreachable === null ? 'No start' : String(analysis.unreachable.length)
+    },
+    { label: 'Dead ends', value: String(analysis.deadEnds) },
+    { label: 'Junctions', value: String(analysis.junctions) },
+    {
+      label: 'Structure',
+      value: analysis.isPerfect ? 'Perfect' : `${analysis.loops} loop${analysis.loops === 1 ? '' : 's'}`,
+      title: 'A perfect maze has exactly one route between any two cells'
+    },
+    {
+      label: 'Branching factor',
+      value: formatNumber(analysis.branchingFactor),
+      title: 'Average number of ways on from a corridor cell; 1.00 means no choices'
+    },
+    { label: 'Shortest path', value: analysis.shortestPath === null ? '–' : String(analysis.shortestPath) },
+    {
+      label: 'Tortuosity',
+      value: formatNumber(analysis.tortuosity),
+      title: 'Shortest path length divided by the straight-line (Manhattan) distance'
+    },
+  ] : [];
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4">
+      <h2 className="text-lg font-semibold mb-4 text-gray-700">Analysis</h2>
+
+      <div className="space-y-3">
+        <button
+          onClick={() => setAnalysis(analyzeMaze(grid, starts, goals, walls))}
+          className="w-full px-4 py-2 bg-slate-700 text-white rounded-lg font-medium hover:bg-slate-800"
+        >
+          Analyze Maze
+        </button>
+
+        {analysis && (
+          <>
+            <div className="p-3 bg-gray-50 rounded border border-gray-200 text-center">
+              <div className="text-xs text-gray-500">Difficulty</div>
+              <div className="text-2xl font-bold text-gray-800">
+                {analysis.difficulty === null ? '–' : `${analysis.difficulty} / 100`}
+              </div>
+              {analysis.difficulty === null && (
+                <div className="text-xs text-gray-500">Needs a start and a reachable goal</div>
+              )}
+            </div>
+
+            <div className="p-3 bg-gray-50 rounded border border-gray-200 text-sm space-y-1">
+              {rows.map((row) => (
+                <div key={row.label} className="flex justify-between" title={row.title}>
+                  <span className="text-gray-600">{row.label}</span>
+                  <span className="font-medium text-gray-800">{row.value}</span>
+                </div>
+              ))}
+            </div>
+
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={showUnreachable}
+                onChange={(e) => setShowUnreachable(e.target.checked)}
+                className="w-4 h-4 accent-red-600"
+              />
+              <span className="text-sm text-gray-700">Highlight unreachable cells</span>
+            </label>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default AnalysisPanel;
@@ -0,0 +1,231 @@
+import { useEffect, useRef, useState } from 'react';
+import type { PostProcessOptions } from '@/types';
+import type { BatchExportOptions, BatchOutput } from '@/utils/batchExport';
+import { MAX_BATCH_COUNT, validateBatchOptions } from '@/utils/batchExport';
+import type { BatchWorkerMessage } from '@/workers/batchWorker';
+import type { MazeAlgorithm } from '@/utils/mazeAlgorithms';
+import { MAZE_ALGORITHMS } from '@/utils/mazeAlgorithms';
+import type { MarkerPlacementOptions } from '@/utils/markerPlacement';
+import { MARKER_PLACEMENTS } from '@/utils/markerPlacement';
+import { hasPostProcessing } from '@/utils/postProcessing';
+import { MAX_SEED } from '@/utils/random';
+import { downloadFile } from '@/utils/exportUtils';
+
+interface BatchExportSectionProps {
+  postProcess: PostProcessOptions;
+  markerPlacement: MarkerPlacementOptions;
+  invertValues: boolean;
+}
+
+type BatchStatus =
+  | { type: 'running'; accepted: number; attempted: number }
+  | { type: 'done'; message: string }
+  | { type: 'error'; message: string };
+
+const inputClass = 'w-full mt-1 px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-slate-500';
+
+function BatchExportSection({ postProcess, markerPlacement, invertValues }: BatchExportSectionProps) {
+  const [showBatch, setShowBatch] = useState(false);
+  const [count, setCount] = useState('100');
+  const [minSize, setMinSize] = useState('21');
+  const [maxSize, setMaxSize] = useState('41');
+  const [firstSeed, setFirstSeed] = useState('1');
+  const [lastSeed, setLastSeed] = useState('100000');
+  const [algorithms, setAlgorithms] = useState<MazeAlgorithm[]>(['dfs', 'prim', 'kruskal']);
+  const [minDifficulty, setMinDifficulty] = useState(0);
+  const [output, setOutput] = useState<BatchOutput>('zip-both');
+  const [status, setStatus] = useState<BatchStatus | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+
+  // a batch still running when the panel goes away is abandoned
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  const options: BatchExportOptions = {
+    count: parseInt(count),
+    minSize: parseInt(minSize),
+    maxSize: parseInt(maxSize),
+    algorithms,
+    firstSeed: Number(firstSeed),
+    lastSeed: Number(lastSeed),
+    postProcess,
+    markerPlacement,
+    minDifficulty,
+    invertValues,
+    output
+  };
+  const validationError = validateBatchOptions(options);
+  const isRunning = status?.type === 'running';
+  const placementLabel = MARKER_PLACEMENTS.find((option) => option.value === markerPlacement.strategy)?.label;
+
+  const toggleAlgorithm = (value: MazeAlgorithm) => {
+    setAlgorithms(algorithms.includes(value)
+      ? algorithms.filter((algorithm) => algorithm !== value)
+      : [...algorithms, value]);
+  };
+
+  const handleStart = () => {
+    const worker = new Worker(new URL('../workers/batchWorker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+    setStatus({ type: 'running', accepted: 0, attempted: 0 });
+
+    worker.onmessage = (e: MessageEvent<BatchWorkerMessage>) => {
+      const message = e.data;
+      if (message.type === 'progress') {
+        setStatus({ type: 'running', accepted: message.accepted, attempted: message.attempted });
+        return;
+      }
+
+      worker.terminate();
+      workerRef.current = null;
+      if (message.type === 'done') {
+        downloadFile(message.data, message.filename, message.mimeType);
+        const skipped = message.attempted - message.accepted;
+        setStatus({
+          type: 'done',
+          message: `Exported ${message.accepted} mazes${skipped > 0 ? ` (${skipped} seeds below the difficulty filter)` : ''}`
+        });
+      } else {
+        setStatus({ type: 'error', message: message.message });
+      }
+    };
+    worker.onerror = (e) => {
+      worker.terminate();
+      workerRef.current = null;
+      setStatus({ type: 'error', message: e.message || 'The batch worker failed' });
+    };
+
+    worker.postMessage(options);
+  };
+
+  const handleCancel = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setStatus(null);
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-sm font-semibold text-gray-700">Batch Dataset</h3>
+        <button
+          onClick={() => setShowBatch(!showBatch)}
+          className="text-xs text-slate-600 hover:text-slate-800"
+        >
+          {showBatch ? 'Hide ▾' : 'Show ▸'}
+        </button>
+      </div>
+
+      {showBatch && (
+        <div className="p-3 bg-gray-50 rounded border border-gray-200 space-y-3">
+          <div className="grid grid-cols-3 gap-2">
+            <label className="text-xs text-gray-600">
+              Count
+              <input type="number" min="1" max={MAX_BATCH_COUNT} value={count}
+                onChange={(e) => setCount(e.target.value)} className={inputClass} />
+            </label>
+            <label className="text-xs text-gray-600">
+              Min size
+              <input type="number" value={minSize} onChange={(e) => setMinSize(e.target.value)} className={inputClass} />
+            </label>
+            <label className="text-xs text-gray-600">
+              Max size
+              <input type="number" value={maxSize} onChange={(e) => setMaxSize(e.target.value)} className={inputClass} />
+            </label>
+            <label className="text-xs text-gray-600">
+              First seed
+              <input type="number" min="0" max={MAX_SEED} value={firstSeed}
+                onChange={(e) => setFirstSeed(e.target.value)} className={inputClass} />
+            </label>
+            <label className="text-xs text-gray-600">
+              Last seed
+              <input type="number" min="0" max={MAX_SEED} value={lastSeed}
+                onChange={(e) => setLastSeed(e.target.value)} className={inputClass} />
+            </label>
+            <label className="text-xs text-gray-600">
+              Output
+              <select value={output} onChange={(e) => setOutput(e.target.value as BatchOutput)} className={inputClass}>
+                <option value="jsonl">JSONL</option>
+                <option value="zip-json">Zip: JSON</option>
+                <option value="zip-npy">Zip: NPY</option>
+                <option value="zip-both">Zip: JSON + NPY</option>
+              </select>
+            </label>
+          </div>
+
+          <div>
+            <div className="text-xs text-gray-600 mb-1">Algorithms (picked at random per seed)</div>
+            <div className="grid grid-cols-2 gap-x-2 gap-y-1">
+              {MAZE_ALGORITHMS.map((algorithm) => (
+                <label key={algorithm.value} className="flex items-center gap-1 text-xs text-gray-700 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={algorithms.includes(algorithm.value)}
+                    onChange={() => toggleAlgorithm(algorithm.value)}
+                    className="w-3 h-3 accent-slate-600"
+                  />
+                  {algorithm.label}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">
+              Minimum difficulty: {minDifficulty === 0 ? 'any' : minDifficulty}
+            </label>
+            <input
+              type="range"
+              min="0"
+              max="100"
+              step="5"
+              value={minDifficulty}
+              onChange={(e) => setMinDifficulty(parseInt(e.target.value))}
+              className="w-full accent-slate-600"
+            />
+          </div>
+
+          <p className="text-xs text-gray-500">
+            Uses the Generate panel&apos;s post-processing ({hasPostProcessing(postProcess) ? 'on' : 'off'}) and
+            start &amp; goal placement ({placementLabel}). Seeds are tried in order until the count is reached.
+          </p>
+
+          {isRunning ? (
+            <div className="space-y-2">
+              <div className="w-full h-2 bg-gray-200 rounded">
+                <div
+                  className="h-2 bg-slate-600 rounded"
+                  style={{ width: `${Math.min(100, (status.accepted / options.count) * 100)}%` }}
+                />
+              </div>
+              <div className="flex justify-between items-center">
+                <span className="text-xs text-gray-600">
+                  {status.accepted} / {options.count} mazes ({status.attempted} seeds tried)
+                </span>
+                <button onClick={handleCancel} className="text-xs text-red-600 hover:text-red-800">
+                  Cancel
+                </button>
+              </div>
+            </div>
+          ) : (
+            <button
+              onClick={handleStart}
+              disabled={validationError !== null}
+              title={validationError ?? undefined}
+              className="w-full px-4 py-2 bg-slate-700 text-white rounded-lg font-medium hover:bg-slate-800 disabled:bg-gray-300 disabled:cursor-not-allowed"
+            >
+              Generate &amp; Download
+            </button>
+          )}
+
+          {!isRunning && (validationError || status) && (
+            <p className={`text-xs ${validationError || status?.type === 'error' ? 'text-red-600' : 'text-green-700'}`}>
+              {validationError ?? status?.message}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default BatchExportSection;
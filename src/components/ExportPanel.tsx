@@ -1,26 +1,183 @@
-import { useState } from 'react';
-import type { CellValue, Position } from '@/types';
+import { useRef, useState } from 'react';
+import type { CellValue, GenerationInfo, ImportStatus, Marker, MazeDocument, PostProcessOptions, Theme, WallGrid } from '@/types';
 import { exportToPython, exportToJSON, downloadFile, exportCanvasToPNG, copyToClipboard } from '@/utils/exportUtils';
+import { CELL_TYPES, isBinaryGrid } from '@/utils/cellTypes';
+import { analyzeMaze } from '@/utils/mazeAnalysis';
+import { exportToNpz, gridToNpy } from '@/utils/numpyUtils';
+import type { GymExportOptions, GymObservation } from '@/utils/gymExport';
+import { DEFAULT_GYM_OPTIONS, exportToGymnasium } from '@/utils/gymExport';
+import type { MarkerPlacementOptions } from '@/utils/markerPlacement';
+import type { TextMapping } from '@/utils/textFormat';
+import { exportToMovingAI, exportToText, validateTextMapping } from '@/utils/textFormat';
+import { MAX_SHARE_LINK_LENGTH, createShareLink } from '@/utils/shareLink';
+import { toBlockDocument } from '@/utils/edgeMaze';
+import BatchExportSection from '@/components/BatchExportSection';
+import ImageImportSection from '@/components/ImageImportSection';
+import VectorExportSection from '@/components/VectorExportSection';
 
 interface ExportPanelProps {
   grid: CellValue[][];
-  startPos: Position | null;
-  goalPos: Position | null;
+  starts: Marker[];
+  goals: Marker[];
+  walls: WallGrid | null;
+  generation: GenerationInfo | null;
+  postProcess: PostProcessOptions;
+  markerPlacement: MarkerPlacementOptions;
+  textMapping: TextMapping;
+  onTextMappingChange: (mapping: TextMapping) => void;
   canvasRef: React.RefObject<HTMLCanvasElement | null>;
+  theme: Theme;
+  importStatus: ImportStatus | null;
+  onImportText: (text: string, source: string) => void;
+  onImportFile: (file: File) => void;
+  onImportDocument: (doc: MazeDocument, source: string) => void;
+  onImportError: (message: string) => void;
 }
 
-function ExportPanel({ grid, startPos, goalPos, canvasRef }: ExportPanelProps) {
+function ExportPanel({ 
+  grid, 
+  starts, 
+  goals, 
+  walls,
+  generation,
+  postProcess,
+  markerPlacement,
+  textMapping,
+  onTextMappingChange,
+  canvasRef, 
+  theme,
+  importStatus, 
+  onImportText, 
+  onImportFile,
+  onImportDocument,
+  onImportError
+}: ExportPanelProps) {
   const [invertValues, setInvertValues] = useState(false);
+  const [includeAnalysis, setIncludeAnalysis] = useState(false);
   const [copyStatus, setCopyStatus] = useState<'idle' | 'success' | 'error'>('idle');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const binary = isBinaryGrid(grid);
+  const [gymOptions, setGymOptions] = useState<GymExportOptions>(DEFAULT_GYM_OPTIONS);
+  const [showGymOptions, setShowGymOptions] = useState(false);
+  const [showTextMapping, setShowTextMapping] = useState(false);
+  const [textCopyStatus, setTextCopyStatus] = useState<'idle' | 'success' | 'error'>('idle');
+  const [shareStatus, setShareStatus] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+  const textMappingError = validateTextMapping(textMapping);
+
+  const textMappingFields: { label: string; value: string; update: (char: string) => TextMapping }[] = [
+    { label: 'Start', value: textMapping.start, update: (char) => ({ ...textMapping, start: char }) },
+    { label: 'Goal', value: textMapping.goal, update: (char) => ({ ...textMapping, goal: char }) },
+    ...CELL_TYPES.map((cell) => ({
+      label: cell.label,
+      value: textMapping.cells[cell.id],
+      update: (char: string) => ({ ...textMapping, cells: { ...textMapping.cells, [cell.id]: char } })
+    })),
+  ];
+
+  const gymNumberFields: { key: keyof GymExportOptions; label: string; step: string; integer?: boolean }[] = [
+    { key: 'stepPenalty', label: 'Step penalty', step: '0.01' },
+    { key: 'goalReward', label: 'Goal reward', step: '0.1' },
+    { key: 'wallPenalty', label: 'Wall bump penalty', step: '0.01' },
+    { key: 'trapPenalty', label: 'Trap penalty', step: '0.1' },
+    { key: 'maxSteps', label: 'Max steps', step: '1', integer: true },
+  ];
+
+  // formats without thin walls export the block equivalent, converted only when one is downloaded
+  const getBlockDoc = () => toBlockDocument({ grid, starts, goals, walls, generation });
+
+  const handleGymNumberChange = (key: keyof GymExportOptions, value: string, integer?: boolean) => {
+    const num = integer ? parseInt(value) : parseFloat(value);
+    if (!isNaN(num) && (!integer || num >= 1)) {
+      setGymOptions({ ...gymOptions, [key]: num });
+    }
+  };
+
+  const handleExportGym = () => {
+    const doc = getBlockDoc();
+    const code = exportToGymnasium(doc.grid, doc.starts, doc.goals, gymOptions);
+    const timestamp = new Date().toISOString().split('T')[0];
+    downloadFile(code, `maze_env_${timestamp}.py`, 'text/plain');
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      onImportFile(file);
+    }
+    // reset so picking the same file again still fires onChange
+    e.target.value = '';
+  };
+
+  const handlePasteImport = async () => {
+    let text: string;
+    try {
+      text = await navigator.clipboard.readText();
+    } catch {
+      onImportError('Clipboard access was denied. Click the grid and press Ctrl+V instead.');
+      return;
+    }
+    onImportText(text, 'clipboard');
+  };
 
   const handleExportPython = () => {
-    const code = exportToPython(grid, startPos, goalPos, invertValues);
+    const code = exportToPython(grid, starts, goals, invertValues, walls);
     const timestamp = new Date().toISOString().split('T')[0];
     downloadFile(code, `maze_${timestamp}.py`, 'text/plain');
   };
 
+  const handleExportNpy = () => {
+    const timestamp = new Date().toISOString().split('T')[0];
+    downloadFile(gridToNpy(getBlockDoc().grid, invertValues), `maze_${timestamp}.npy`, 'application/octet-stream');
+  };
+
+  const handleExportNpz = async () => {
+    const doc = getBlockDoc();
+    const data = await exportToNpz(doc.grid, doc.starts, doc.goals, invertValues);
+    const timestamp = new Date().toISOString().split('T')[0];
+    downloadFile(data, `maze_${timestamp}.npz`, 'application/zip');
+  };
+
+  const handleExportText = () => {
+    const doc = getBlockDoc();
+    const timestamp = new Date().toISOString().split('T')[0];
+    downloadFile(exportToText(doc.grid, doc.starts, doc.goals, textMapping), `maze_${timestamp}.txt`, 'text/plain');
+  };
+
+  const handleExportMovingAI = () => {
+    const timestamp = new Date().toISOString().split('T')[0];
+    downloadFile(exportToMovingAI(getBlockDoc().grid), `maze_${timestamp}.map`, 'text/plain');
+  };
+
+  const handleCopyText = async () => {
+    const doc = getBlockDoc();
+    const success = await copyToClipboard(exportToText(doc.grid, doc.starts, doc.goals, textMapping));
+    setTextCopyStatus(success ? 'success' : 'error');
+    setTimeout(() => setTextCopyStatus('idle'), success ? 2000 : 3000);
+  };
+
+  const handleCopyShareLink = async () => {
+    let link: string;
+    try {
+      link = await createShareLink({ grid, starts, goals, generation, walls });
+    } catch {
+      setShareStatus({ type: 'error', message: 'Could not encode the maze' });
+      return;
+    }
+
+    const success = await copyToClipboard(link);
+    if (!success) {
+      setShareStatus({ type: 'error', message: 'Copy failed. Try the JSON download instead.' });
+    } else if (link.length > MAX_SHARE_LINK_LENGTH) {
+      setShareStatus({ type: 'success', message: `Copied, but at ${link.length} characters some apps may cut the link short` });
+    } else {
+      setShareStatus({ type: 'success', message: `Copied a ${link.length}-character link` });
+    }
+    setTimeout(() => setShareStatus(null), 4000);
+  };
+
   const handleExportJSON = () => {
-    const json = exportToJSON(grid, startPos, goalPos, invertValues);
+    const analysis = includeAnalysis ? analyzeMaze(grid, starts, goals, walls) : null;
+    const json = exportToJSON(grid, starts, goals, invertValues, generation, analysis, walls);
     const timestamp = new Date().toISOString().split('T')[0];
     downloadFile(json, `maze_${timestamp}.json`, 'application/json');
   };
@@ -33,7 +190,7 @@ function ExportPanel({ grid, startPos, goalPos, canvasRef }: ExportPanelProps) {
   };
 
   const handleCopyPython = async () => {
-    const code = exportToPython(grid, startPos, goalPos, invertValues);
+    const code = exportToPython(grid, starts, goals, invertValues, walls);
     const success = await copyToClipboard(code);
     
     if (success) {
@@ -72,10 +229,11 @@ function ExportPanel({ grid, startPos, goalPos, canvasRef }: ExportPanelProps) {
       <h2 className="text-xl font-semibold text-gray-800">Export Maze</h2>
 
       <div className="mb-4 p-3 bg-gray-50 rounded border border-gray-200">
-        <label className="flex items-center gap-2 cursor-pointer">
+        <label className={`flex items-center gap-2 ${binary ? 'cursor-pointer' : 'opacity-50'}`}>
           <input
             type="checkbox"
-            checked={invertValues}
+            checked={invertValues && binary}
+            disabled={!binary}
             onChange={(e) => setInvertValues(e.target.checked)}
             className="w-4 h-4 accent-red-600"
           />
@@ -84,8 +242,15 @@ function ExportPanel({ grid, startPos, goalPos, canvasRef }: ExportPanelProps) {
           </span>
         </label>
         <p className="text-xs text-gray-500 mt-1 ml-6">
-          Current: 0=wall, 1=walkable → Export as: {invertValues ? '1=wall, 0=walkable' : '0=wall, 1=walkable'}
+          {binary
+            ? `Current: 0=wall, 1=walkable → Export as: ${invertValues ? '1=wall, 0=walkable' : '0=wall, 1=walkable'}`
+            : 'Maze uses extra cell types: exported as v2 cell codes with a legend'}
         </p>
+        {walls && (
+          <p className="text-xs text-gray-500 mt-1 ml-6">
+            Thin walls: Python, JSON and share links keep the wall flags; other formats export the block equivalent
+          </p>
+        )}
       </div>
 
       <div className="space-y-3">
@@ -108,6 +273,148 @@ function ExportPanel({ grid, startPos, goalPos, canvasRef }: ExportPanelProps) {
           </div>
         </div>
 
+        <div>
+          <h3 className="text-sm font-semibold text-gray-700 mb-2">NumPy Binary</h3>
+          <div className="flex gap-2">
+            <button
+              onClick={handleExportNpy}
+              className="flex-1 px-4 py-2 bg-slate-700 text-white rounded-lg font-medium hover:bg-slate-800"
+            >
+              Download .npy
+            </button>
+            <button
+              onClick={handleExportNpz}
+              className="flex-1 px-4 py-2 bg-slate-700 text-white rounded-lg font-medium hover:bg-slate-800"
+            >
+              Download .npz
+            </button>
+          </div>
+          <p className="text-xs text-gray-500 mt-1">
+            Load with np.load; the .npz adds start, goal{binary ? '' : ' and per-cell layers'}
+          </p>
+        </div>
+
+        <div>
+          <div className="flex justify-between items-center mb-2">
+            <h3 className="text-sm font-semibold text-gray-700">Text / ASCII</h3>
+            <button
+              onClick={() => setShowTextMapping(!showTextMapping)}
+              className="text-xs text-slate-600 hover:text-slate-800"
+            >
+              {showTextMapping ? 'Hide characters ▾' : 'Characters ▸'}
+            </button>
+          </div>
+
+          {showTextMapping && (
+            <div className="mb-2 p-3 bg-gray-50 rounded border border-gray-200">
+              <div className="grid grid-cols-4 gap-2">
+                {textMappingFields.map((field) => (
+                  <label key={field.label} className="text-xs text-gray-600">
+                    {field.label}
+                    <input
+                      type="text"
+                      value={field.value}
+                      onChange={(e) => onTextMappingChange(field.update(e.target.value))}
+                      className="w-full mt-1 px-2 py-1 text-sm font-mono text-center border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-slate-500"
+                    />
+                  </label>
+                ))}
+              </div>
+              <p className={`text-xs mt-2 ${textMappingError ? 'text-red-600' : 'text-gray-500'}`}>
+                {textMappingError ?? 'Used for text export and for importing text grids'}
+              </p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-3 gap-2">
+            <button
+              onClick={handleExportText}
+              disabled={textMappingError !== null}
+              className="px-3 py-2 bg-slate-700 text-white rounded-lg font-medium hover:bg-slate-800 text-sm disabled:bg-gray-300 disabled:cursor-not-allowed"
+            >
+              .txt
+            </button>
+            <button
+              onClick={handleCopyText}
+              disabled={textMappingError !== null || textCopyStatus !== 'idle'}
+              className="px-3 py-2 bg-slate-100 text-slate-700 rounded-lg font-medium hover:bg-slate-200 text-sm disabled:opacity-50"
+            >
+              {textCopyStatus === 'success' ? '✓ Copied!' : textCopyStatus === 'error' ? '✗ Failed' : 'Copy'}
+            </button>
+            <button
+              onClick={handleExportMovingAI}
+              title="Moving AI benchmark map; walls become @, rough terrain S, everything passable ."
+              className="px-3 py-2 bg-slate-700 text-white rounded-lg font-medium hover:bg-slate-800 text-sm"
+            >
+              .map
+            </button>
+          </div>
+        </div>
+
+        <div>
+          <div className="flex justify-between items-center mb-2">
+            <h3 className="text-sm font-semibold text-gray-700">Gymnasium Environment</h3>
+            <button
+              onClick={() => setShowGymOptions(!showGymOptions)}
+              className="text-xs text-slate-600 hover:text-slate-800"
+            >
+              {showGymOptions ? 'Hide options ▾' : 'Options ▸'}
+            </button>
+          </div>
+
+          {showGymOptions && (
+            <div className="mb-2 p-3 bg-gray-50 rounded border border-gray-200 grid grid-cols-2 gap-2">
+              {gymNumberFields.map((field) => (
+                <label key={field.key} className="text-xs text-gray-600">
+                  {field.label}
+                  <input
+                    type="number"
+                    step={field.step}
+                    defaultValue={gymOptions[field.key]}
+                    onChange={(e) => handleGymNumberChange(field.key, e.target.value, field.integer)}
+                    className="w-full mt-1 px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-slate-500"
+                  />
+                </label>
+              ))}
+
+              <label className="text-xs text-gray-600">
+                Observation
+                <select
+                  value={gymOptions.observation}
+                  onChange={(e) => setGymOptions({ ...gymOptions, observation: e.target.value as GymObservation })}
+                  className="w-full mt-1 px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-slate-500"
+                >
+                  <option value="coordinates">Coordinates</option>
+                  <option value="onehot">One-hot position</option>
+                  <option value="local">Local view</option>
+                </select>
+              </label>
+
+              {gymOptions.observation === 'local' && (
+                <label className="text-xs text-gray-600">
+                  View radius
+                  <input
+                    type="number"
+                    min="1"
+                    max="10"
+                    defaultValue={gymOptions.viewRadius}
+                    onChange={(e) => handleGymNumberChange('viewRadius', e.target.value, true)}
+                    className="w-full mt-1 px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-slate-500"
+                  />
+                </label>
+              )}
+            </div>
+          )}
+
+          <button
+            onClick={handleExportGym}
+            disabled={starts.length === 0}
+            className="w-full px-4 py-2 bg-slate-700 text-white rounded-lg font-medium hover:bg-slate-800 disabled:bg-gray-300 disabled:cursor-not-allowed"
+          >
+            Download env .py
+          </button>
+        </div>
+
         <div>
           <h3 className="text-sm font-semibold text-gray-700 mb-2">JSON Format</h3>
           <button
@@ -116,8 +423,36 @@ function ExportPanel({ grid, startPos, goalPos, canvasRef }: ExportPanelProps) {
           >
             Download .json
           </button>
+          <label className="flex items-center gap-2 mt-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={includeAnalysis}
+              onChange={(e) => setIncludeAnalysis(e.target.checked)}
+              className="w-4 h-4 accent-slate-600"
+            />
+            <span className="text-xs text-gray-600">Include analysis metrics in metadata</span>
+          </label>
         </div>
 
+        <div>
+          <h3 className="text-sm font-semibold text-gray-700 mb-2">Share Link</h3>
+          <button
+            onClick={handleCopyShareLink}
+            className="w-full px-4 py-2 bg-slate-100 text-slate-700 rounded-lg font-medium hover:bg-slate-200"
+          >
+            Copy share link
+          </button>
+          <p className={`text-xs mt-1 ${shareStatus?.type === 'error' ? 'text-red-600' : shareStatus ? 'text-green-700' : 'text-gray-500'}`}>
+            {shareStatus?.message ?? 'The whole maze is packed into the link; opening it loads the maze'}
+          </p>
+        </div>
+
+        <BatchExportSection
+          postProcess={postProcess}
+          markerPlacement={markerPlacement}
+          invertValues={invertValues}
+        />
+
         <div>
           <h3 className="text-sm font-semibold text-gray-700 mb-2">Image (PNG)</h3>
           <button
@@ -127,6 +462,49 @@ function ExportPanel({ grid, startPos, goalPos, canvasRef }: ExportPanelProps) {
             Download .png
           </button>
         </div>
+
+        <VectorExportSection grid={grid} starts={starts} goals={goals} walls={walls} theme={theme} />
+      </div>
+
+      <div className="mt-4 pt-4 border-t border-gray-200">
+        <h3 className="text-sm font-semibold text-gray-700 mb-2">Import</h3>
+        <div className="flex gap-2">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex-1 px-4 py-2 bg-slate-700 text-white rounded-lg font-medium hover:bg-slate-800"
+          >
+            Open file
+          </button>
+          <button
+            onClick={handlePasteImport}
+            className="px-4 py-2 bg-slate-100 text-slate-700 rounded-lg font-medium hover:bg-slate-200"
+          >
+            Paste
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,.txt,.map,application/json,text/plain"
+            onChange={handleFileChange}
+            className="hidden"
+          />
+        </div>
+        <p className="text-xs text-gray-500 mt-1">
+          JSON exports, text grids using the characters above, or Moving AI .map files.
+          You can also drop a file onto the grid or press Ctrl+V.
+        </p>
+
+        <ImageImportSection colors={theme.colors} onImportDocument={onImportDocument} onImportError={onImportError} />
+
+        {importStatus && (
+          <div className={`mt-2 p-2 rounded border ${
+            importStatus.type === 'success'
+              ? 'bg-green-50 border-green-200 text-green-700'
+              : 'bg-red-50 border-red-200 text-red-700'
+          }`}>
+            <p className="text-xs">{importStatus.message}</p>
+          </div>
+        )}
       </div>
 
       <div className="mt-4 p-3 bg-blue-50 rounded border border-blue-200">
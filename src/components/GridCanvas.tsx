@@ -1,54 +1,164 @@
-import { forwardRef, useRef, useEffect, useImperativeHandle, useMemo } from 'react';
-import type { CellValue, Position, ColorTheme } from '@/types';
+import { forwardRef, useRef, useEffect, useImperativeHandle, useMemo, useState } from 'react';
+import type { CellValue, DrawMode, DrawTool, Position, ColorTheme, Marker, SelectionRect, SolverOverlay, Theme, Viewport, WallGrid } from '@/types';
+import {
+  drawMarker,
+  drawCellHighlight,
+  drawGridLines,
+  drawSelection,
+  drawSolverOverlay,
+  drawWalls,
+  getCellColor,
+  renderAllCells,
+  renderCellRange,
+  renderDirtyCells,
+  showsGridLines
+} from '@/utils/canvasRenderer';
+import {
+  MAX_ZOOM_CELL_SIZE,
+  centerViewportOn,
+  fitViewport,
+  getVisibleCells,
+  isZoomedIn,
+  panViewport,
+  viewToCell,
+  zoomViewport
+} from '@/utils/viewport';
+import { normalizeSelection } from '@/utils/selectionUtils';
+import { bresenhamLine, floodFillCells, getShapeCells } from '@/utils/shapeUtils';
+import type { WallEdge } from '@/utils/edgeMaze';
+import { getWallEdgeAt, hasWall } from '@/utils/edgeMaze';
 
 interface GridCanvasProps {
   grid: CellValue[][];
-  startPos: Position | null;
-  goalPos: Position | null;
-  colors: ColorTheme;
+  // thin walls between the cells, or null for a block grid
+  walls: WallGrid | null;
+  starts: Marker[];
+  goals: Marker[];
+  theme: Theme;
+  overlay: SolverOverlay | null;
+  highlight: Position[] | null;
+  drawMode: DrawMode;
+  drawTool: DrawTool;
+  // value the current mode paints, or null for markers and selection
+  paintValue: CellValue | null;
+  selection: SelectionRect | null;
   isPainting: boolean;
-  onCellInteract: (row: number, col: number) => void;
+  onCellInteract: (row: number, col: number, additive: boolean) => void;
   onCellRightClick: (row: number, col: number) => void;
   onPaintStart: () => void;
   onPaintEnd: () => void;
+  onFileDrop: (file: File) => void;
+  onSelectionChange: (selection: SelectionRect | null) => void;
+  onCellHover: (cell: Position | null) => void;
+  onShapeCommit: (cells: Position[], erase: boolean) => void;
+  onWallChange: (edge: WallEdge, present: boolean) => void;
+}
+
+const MAX_CANVAS_SIZE = 700;
+const MINIMAP_SIZE = 160;
+
+// client coordinates to canvas pixels, in case the canvas is scaled by css
+function toCanvasPoint(canvas: HTMLCanvasElement, clientX: number, clientY: number) {
+  const rect = canvas.getBoundingClientRect();
+  const scaleX = rect.width > 0 ? canvas.width / rect.width : 1;
+  const scaleY = rect.height > 0 ? canvas.height / rect.height : 1;
+  return { x: (clientX - rect.left) * scaleX, y: (clientY - rect.top) * scaleY };
+}
+
+function isTypingTarget(target: EventTarget | null) {
+  return target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement ||
+    target instanceof HTMLButtonElement;
 }
 
 const GridCanvas = forwardRef<HTMLCanvasElement, GridCanvasProps>(({ 
   grid, 
-  startPos, 
-  goalPos, 
-  colors, 
+  walls,
+  starts, 
+  goals, 
+  theme, 
+  overlay,
+  highlight,
+  drawMode,
+  drawTool,
+  paintValue,
+  selection,
   isPainting,
   onCellInteract,
   onCellRightClick,
   onPaintStart,
-  onPaintEnd 
+  onPaintEnd,
+  onFileDrop,
+  onSelectionChange,
+  onCellHover,
+  onShapeCommit,
+  onWallChange
 }, ref) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const lastPaintedCell = useRef<string | null>(null);
+  const minimapRef = useRef<HTMLCanvasElement>(null);
+  const [isDragOver, setIsDragOver] = useState(false);
+  const lastPaintedCell = useRef<Position | null>(null);
   const isRightClick = useRef<boolean>(false);
+  const panOrigin = useRef<{ x: number; y: number } | null>(null);
+  const selectionAnchor = useRef<Position | null>(null);
+  const shapeDrag = useRef<{ anchor: Position; erase: boolean } | null>(null);
+  const [preview, setPreview] = useState<{ cells: Position[]; erase: boolean } | null>(null);
+  // on a thin-wall grid the wall mode edits the walls between cells rather than painting cells
+  const editsWalls = walls !== null && drawMode === 'wall';
+  // whether the current wall stroke adds or removes walls, and the last wall it touched
+  const wallStroke = useRef<{ present: boolean; last: WallEdge } | null>(null);
+  const usesShapeTool = !editsWalls && drawTool !== 'brush' && paintValue !== null;
+  const [isPanning, setIsPanning] = useState(false);
+  const [spaceHeld, setSpaceHeld] = useState(false);
+  // cells are cached on an offscreen layer and only the changed ones are repainted
+  const [cellLayer] = useState(() => document.createElement('canvas'));
+  // the whole maze at fit-to-view size; shown unzoomed, and what gets exported as png
+  const [scene] = useState(() => document.createElement('canvas'));
+  const renderedRef = useRef<{ grid: CellValue[][]; colors: ColorTheme; gridLines: boolean; cellSize: number } | null>(null);
+  const { colors, showGridLines: gridLines } = theme;
+
+  useImperativeHandle(ref, () => scene, [scene]);
 
-  useImperativeHandle(ref, () => canvasRef.current!);
+  const gridRows = grid.length;
+  const gridCols = grid[0]?.length || 0;
 
   // memoize dimensions to prevent unnecessary recalculations
   const dimensions = useMemo(() => {
-    const rows = grid.length;
-    const cols = grid[0]?.length || 0;
-    const maxCanvasSize = 700;
-    const cellSize = Math.floor(maxCanvasSize / Math.max(rows, cols));
+    const rows = gridRows;
+    const cols = gridCols;
+    const cellSize = Math.max(1, Math.floor(MAX_CANVAS_SIZE / Math.max(rows, cols)));
     const canvasWidth = cols * cellSize;
     const canvasHeight = rows * cellSize;
     
     return { rows, cols, cellSize, canvasWidth, canvasHeight };
-  }, [grid.length, grid[0]?.length]);
+  }, [gridRows, gridCols]);
+
+  const [view, setView] = useState<Viewport>(() => fitViewport(dimensions));
+  const [prevDimensions, setPrevDimensions] = useState(dimensions);
+
+  // a resized grid starts out fitted to the canvas again
+  if (dimensions !== prevDimensions) {
+    setPrevDimensions(dimensions);
+    setView(fitViewport(dimensions));
+  }
+
+  const zoomed = isZoomedIn(view, dimensions);
 
   // handle global mouse up to fix painting state getting stuck
   useEffect(() => {
     const handleGlobalMouseUp = () => {
+      selectionAnchor.current = null;
+      // releasing a shape outside the canvas cancels it
+      if (shapeDrag.current) {
+        shapeDrag.current = null;
+        setPreview(null);
+      }
       if (isPainting) {
         onPaintEnd();
         lastPaintedCell.current = null;
         isRightClick.current = false;
+        wallStroke.current = null;
       }
     };
 
@@ -56,7 +166,64 @@ const GridCanvas = forwardRef<HTMLCanvasElement, GridCanvasProps>(({
     return () => window.removeEventListener('mouseup', handleGlobalMouseUp);
   }, [isPainting, onPaintEnd]);
 
-  // draw the grid whenever it changes
+  // bring the cell layer up to date: a full repaint when size or colours change,
+  // otherwise just the cells that differ from the last render
+  useEffect(() => {
+    const { cellSize, canvasWidth, canvasHeight } = dimensions;
+    const ctx = cellLayer.getContext('2d');
+    if (!ctx) return;
+
+    const rendered = renderedRef.current;
+    const canPatch = rendered !== null &&
+      rendered.cellSize === cellSize &&
+      rendered.colors === colors &&
+      rendered.gridLines === gridLines &&
+      rendered.grid.length === grid.length &&
+      rendered.grid[0]?.length === grid[0]?.length &&
+      cellLayer.width === canvasWidth &&
+      cellLayer.height === canvasHeight;
+
+    if (canPatch) {
+      renderDirtyCells(ctx, rendered.grid, grid, cellSize, colors, gridLines);
+    } else {
+      cellLayer.width = canvasWidth;
+      cellLayer.height = canvasHeight;
+      renderAllCells(ctx, grid, cellSize, colors, gridLines);
+    }
+
+    renderedRef.current = { grid, colors, gridLines, cellSize };
+  }, [cellLayer, grid, colors, gridLines, dimensions]);
+
+  // composite the cached cells with the overlay and markers
+  useEffect(() => {
+    const ctx = scene.getContext('2d');
+    if (!ctx) return;
+
+    const { cellSize, canvasWidth, canvasHeight } = dimensions;
+    if (scene.width !== canvasWidth || scene.height !== canvasHeight) {
+      scene.width = canvasWidth;
+      scene.height = canvasHeight;
+    }
+
+    ctx.clearRect(0, 0, canvasWidth, canvasHeight);
+    ctx.drawImage(cellLayer, 0, 0);
+    if (walls) {
+      drawWalls(ctx, walls, cellSize, colors.wall);
+    }
+
+    if (highlight) {
+      drawCellHighlight(ctx, highlight, cellSize, colors.unreachable, 0.45);
+    }
+    if (overlay) {
+      drawSolverOverlay(ctx, overlay, cellSize, colors);
+    }
+
+    starts.forEach(marker => drawMarker(ctx, marker, cellSize, colors.start, theme.startShape));
+    goals.forEach(marker => drawMarker(ctx, marker, cellSize, colors.goal, theme.goalShape));
+
+  }, [cellLayer, scene, grid, walls, starts, goals, colors, theme.startShape, theme.goalShape, gridLines, overlay, highlight, dimensions]);
+
+  // the visible canvas: the cached scene when fitted, otherwise only the cells on screen at the zoomed size
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
@@ -64,122 +231,339 @@ const GridCanvas = forwardRef<HTMLCanvasElement, GridCanvasProps>(({
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    const { rows, cols, cellSize, canvasWidth, canvasHeight } = dimensions;
-
-    // clear canvas
+    const { canvasWidth, canvasHeight } = dimensions;
     ctx.clearRect(0, 0, canvasWidth, canvasHeight);
 
-    // draw each cell
-    for (let row = 0; row < rows; row++) {
-      for (let col = 0; col < cols; col++) {
-        const x = col * cellSize;
-        const y = row * cellSize;
+    if (!zoomed) {
+      ctx.drawImage(scene, 0, 0);
+    } else {
+      const { cellSize, offsetX, offsetY } = view;
+      ctx.save();
+      ctx.translate(offsetX, offsetY);
 
-        // fill cell
-        ctx.fillStyle = grid[row][col] === 0 ? colors.wall : colors.walkable;
-        ctx.fillRect(x, y, cellSize, cellSize);
-
-        // draw grid lines
-        ctx.strokeStyle = colors.grid;
-        ctx.lineWidth = 1;
-        ctx.strokeRect(x, y, cellSize, cellSize);
+      const visible = getVisibleCells(view, dimensions);
+      renderCellRange(ctx, grid, cellSize, colors, visible);
+      if (gridLines && showsGridLines(cellSize)) {
+        drawGridLines(ctx, dimensions.rows, dimensions.cols, cellSize, colors.grid);
+      }
+      if (walls) {
+        drawWalls(ctx, walls, cellSize, colors.wall, visible);
+      }
+      if (highlight) {
+        drawCellHighlight(ctx, highlight, cellSize, colors.unreachable, 0.45);
+      }
+      if (overlay) {
+        drawSolverOverlay(ctx, overlay, cellSize, colors);
       }
+      starts.forEach(marker => drawMarker(ctx, marker, cellSize, colors.start, theme.startShape));
+      goals.forEach(marker => drawMarker(ctx, marker, cellSize, colors.goal, theme.goalShape));
+
+      ctx.restore();
     }
 
-    // draw start position
-    if (startPos) {
-      const x = startPos.col * cellSize + cellSize / 2;
-      const y = startPos.row * cellSize + cellSize / 2;
-      const radius = Math.max(cellSize / 3, 3);
-      
-      ctx.fillStyle = colors.start;
-      ctx.beginPath();
-      ctx.arc(x, y, radius, 0, Math.PI * 2);
-      ctx.fill();
+    if (preview && usesShapeTool) {
+      const color = preview.erase || paintValue === null ? colors.walkable : getCellColor(paintValue, colors);
+      ctx.save();
+      ctx.translate(view.offsetX, view.offsetY);
+      drawCellHighlight(ctx, preview.cells, view.cellSize, color);
+      ctx.restore();
     }
 
-    // draw goal position
-    if (goalPos) {
-      const x = goalPos.col * cellSize + cellSize / 2;
-      const y = goalPos.row * cellSize + cellSize / 2;
-      const radius = Math.max(cellSize / 3, 3);
-      
-      ctx.fillStyle = colors.goal;
-      ctx.beginPath();
-      ctx.arc(x, y, radius, 0, Math.PI * 2);
-      ctx.fill();
+    if (selection) {
+      ctx.save();
+      ctx.translate(view.offsetX, view.offsetY);
+      drawSelection(ctx, selection, view.cellSize);
+      ctx.restore();
     }
 
-  }, [grid, startPos, goalPos, colors, dimensions]);
+    // minimap with the visible part of the grid outlined
+    const minimap = minimapRef.current;
+    const minimapCtx = minimap?.getContext('2d');
+    if (minimap && minimapCtx) {
+      minimapCtx.clearRect(0, 0, minimap.width, minimap.height);
+      minimapCtx.drawImage(scene, 0, 0, minimap.width, minimap.height);
+
+      const scale = minimap.width / (dimensions.cols * view.cellSize);
+      minimapCtx.strokeStyle = colors.start;
+      minimapCtx.lineWidth = 2;
+      minimapCtx.strokeRect(
+        -view.offsetX * scale + 1,
+        -view.offsetY * scale + 1,
+        canvasWidth * scale - 2,
+        canvasHeight * scale - 2
+      );
+    }
+  }, [scene, grid, walls, starts, goals, colors, theme.startShape, theme.goalShape, gridLines, overlay, highlight, selection, preview, usesShapeTool, paintValue, dimensions, view, zoomed]);
+
+  // react registers wheel listeners as passive, so zooming needs a native listener to stop the page scrolling
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      if (e.deltaY === 0) return;
+      e.preventDefault();
+      const point = toCanvasPoint(canvas, e.clientX, e.clientY);
+      setView(current => zoomViewport(current, dimensions, e.deltaY < 0 ? 1 : -1, point.x, point.y));
+    };
+
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, [dimensions]);
+
+  // holding space turns dragging into panning
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTypingTarget(e.target)) return;
+      e.preventDefault();
+      setSpaceHeld(true);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code === 'Space') {
+        setSpaceHeld(false);
+      }
+    };
+    const handleBlur = () => setSpaceHeld(false);
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, []);
+
+  // pan on window events so the drag keeps going when the pointer leaves the canvas
+  useEffect(() => {
+    if (!isPanning) return;
+
+    const handleMove = (e: MouseEvent) => {
+      const canvas = canvasRef.current;
+      const origin = panOrigin.current;
+      if (!canvas || !origin) return;
+
+      const from = toCanvasPoint(canvas, origin.x, origin.y);
+      const to = toCanvasPoint(canvas, e.clientX, e.clientY);
+      panOrigin.current = { x: e.clientX, y: e.clientY };
+      setView(current => panViewport(current, dimensions, to.x - from.x, to.y - from.y));
+    };
+    const handleUp = () => {
+      panOrigin.current = null;
+      setIsPanning(false);
+    };
+
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+  }, [isPanning, dimensions]);
+
+  const zoomAtCenter = (direction: 1 | -1) => {
+    setView(current => zoomViewport(
+      current,
+      dimensions,
+      direction,
+      dimensions.canvasWidth / 2,
+      dimensions.canvasHeight / 2
+    ));
+  };
+
+  // clicking or dragging on the minimap centres the view there
+  const handleMinimapMouse = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const minimap = minimapRef.current;
+    if (!minimap || (e.type === 'mousemove' && (e.buttons & 1) === 0)) return;
+    e.preventDefault();
+
+    const point = toCanvasPoint(minimap, e.clientX, e.clientY);
+    const row = (point.y / minimap.height) * dimensions.rows;
+    const col = (point.x / minimap.width) * dimensions.cols;
+    setView(current => centerViewportOn(current, dimensions, row, col));
+  };
 
   // get cell from mouse position
   const getCellFromMouse = (e: React.MouseEvent<HTMLCanvasElement>): Position | null => {
     const canvas = canvasRef.current;
     if (!canvas) return null;
 
-    const rect = canvas.getBoundingClientRect();
-    const mouseX = e.clientX - rect.left;
-    const mouseY = e.clientY - rect.top;
+    const point = toCanvasPoint(canvas, e.clientX, e.clientY);
+    return viewToCell(view, dimensions, point.x, point.y);
+  };
 
-    const { rows, cols, cellSize } = dimensions;
-    const col = Math.floor(mouseX / cellSize);
-    const row = Math.floor(mouseY / cellSize);
+  const getWallEdgeFromMouse = (e: React.MouseEvent<HTMLCanvasElement>): WallEdge | null => {
+    const canvas = canvasRef.current;
+    if (!canvas || !walls) return null;
 
-    if (row >= 0 && row < rows && col >= 0 && col < cols) {
-      return { row, col };
-    }
-    return null;
+    const point = toCanvasPoint(canvas, e.clientX, e.clientY);
+    return getWallEdgeAt(walls, (point.x - view.offsetX) / view.cellSize, (point.y - view.offsetY) / view.cellSize);
   };
 
   // handle mouse down
   const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
     e.preventDefault(); 
+
+    // middle mouse or space+drag pans instead of painting
+    if (e.button === 1 || spaceHeld) {
+      panOrigin.current = { x: e.clientX, y: e.clientY };
+      setIsPanning(true);
+      return;
+    }
     
     const cell = getCellFromMouse(e);
+
+    // in select mode dragging spans a selection and right-click drops it
+    if (drawMode === 'select') {
+      if (e.button === 2) {
+        onSelectionChange(null);
+      } else if (cell) {
+        selectionAnchor.current = cell;
+        onSelectionChange(normalizeSelection(cell, cell));
+      }
+      return;
+    }
+
+    // a click near a border toggles that wall, or removes it with the right button;
+    // dragging carries on doing the same to every wall the pointer passes
+    if (editsWalls) {
+      const edge = getWallEdgeFromMouse(e);
+      if (!edge) return;
+
+      const present = e.button !== 2 && !hasWall(walls, edge.row, edge.col, edge.direction);
+      onPaintStart();
+      wallStroke.current = { present, last: edge };
+      onWallChange(edge, present);
+      return;
+    }
+
+    // shapes are dragged out from the first cell and painted on release; fill paints on click
+    if (usesShapeTool) {
+      if (!cell) return;
+
+      const erase = e.button === 2;
+      if (drawTool === 'fill') {
+        onShapeCommit(floodFillCells(grid, cell), erase);
+        setPreview(null);
+      } else {
+        shapeDrag.current = { anchor: cell, erase };
+        setPreview({ cells: getShapeCells(drawTool, cell, cell), erase });
+      }
+      return;
+    }
+
     if (cell) {
       isRightClick.current = e.button === 2;
       
       onPaintStart();
-      lastPaintedCell.current = `${cell.row},${cell.col}`;
+      lastPaintedCell.current = cell;
       
       if (isRightClick.current) {
         onCellRightClick(cell.row, cell.col);
       } else {
-        onCellInteract(cell.row, cell.col);
+        onCellInteract(cell.row, cell.col, e.shiftKey);
       }
     }
   };
 
   // drag painting
   const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    if (!isPainting) return;
+    if (isPanning) return;
 
     const cell = getCellFromMouse(e);
-    if (cell) {
-      const cellKey = `${cell.row},${cell.col}`;
-      if (cellKey !== lastPaintedCell.current) {
-        lastPaintedCell.current = cellKey;
-        
-        if (isRightClick.current) {
-          onCellRightClick(cell.row, cell.col);
-        } else {
-          onCellInteract(cell.row, cell.col);
-        }
+    onCellHover(cell);
+
+    if (selectionAnchor.current) {
+      if (cell) {
+        onSelectionChange(normalizeSelection(selectionAnchor.current, cell));
+      }
+      return;
+    }
+
+    if (wallStroke.current) {
+      const edge = getWallEdgeFromMouse(e);
+      const { present, last } = wallStroke.current;
+      if (edge && (edge.row !== last.row || edge.col !== last.col || edge.direction !== last.direction)) {
+        wallStroke.current = { present, last: edge };
+        onWallChange(edge, present);
+      }
+      return;
+    }
+
+    if (shapeDrag.current) {
+      if (cell) {
+        const { anchor, erase } = shapeDrag.current;
+        setPreview({ cells: getShapeCells(drawTool, anchor, cell), erase });
+      }
+      return;
+    }
+
+    // hovering with the fill tool previews the region a click would fill
+    if (usesShapeTool && drawTool === 'fill') {
+      const last = lastPaintedCell.current;
+      if (!cell) {
+        setPreview(null);
+      } else if (!last || last.row !== cell.row || last.col !== cell.col || !preview) {
+        setPreview({ cells: floodFillCells(grid, cell), erase: false });
+      }
+      lastPaintedCell.current = cell;
+      return;
+    }
+
+    if (!isPainting || !cell) return;
+
+    const last = lastPaintedCell.current;
+    if (last && last.row === cell.row && last.col === cell.col) return;
+    lastPaintedCell.current = cell;
+
+    // fill in the cells skipped between two mouse samples on a fast drag;
+    // placing a marker only needs the cell under the pointer
+    const cells = last && (paintValue !== null || isRightClick.current)
+      ? bresenhamLine(last, cell).slice(1)
+      : [cell];
+
+    for (const { row, col } of cells) {
+      if (isRightClick.current) {
+        onCellRightClick(row, col);
+      } else {
+        onCellInteract(row, col, e.shiftKey);
       }
     }
   };
 
   const handleMouseUp = () => {
+    if (panOrigin.current) return;
+    if (selectionAnchor.current) {
+      selectionAnchor.current = null;
+      return;
+    }
+    if (shapeDrag.current) {
+      shapeDrag.current = null;
+      if (preview) {
+        onShapeCommit(preview.cells, preview.erase);
+      }
+      setPreview(null);
+      return;
+    }
+
     onPaintEnd();
     lastPaintedCell.current = null;
     isRightClick.current = false;
+    wallStroke.current = null;
   };
 
   const handleMouseLeave = () => {
+    onCellHover(null);
+    if (!shapeDrag.current) {
+      setPreview(null);
+      lastPaintedCell.current = null;
+    }
     if (isPainting) {
       onPaintEnd();
       lastPaintedCell.current = null;
       isRightClick.current = false;
+      wallStroke.current = null;
     }
   };
 
@@ -187,24 +571,91 @@ const GridCanvas = forwardRef<HTMLCanvasElement, GridCanvasProps>(({
     e.preventDefault();
   };
 
+  // drop a previously exported .json, a text grid or a .map file to import it
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setIsDragOver(true);
+  };
+
+  const handleDragLeave = () => setIsDragOver(false);
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragOver(false);
+
+    const file = e.dataTransfer.files[0];
+    if (file) {
+      onFileDrop(file);
+    }
+  };
+
+  const cursorClass = isPanning ? 'cursor-grabbing' : spaceHeld ? 'cursor-grab' : 'cursor-crosshair';
+  const minimapScale = MINIMAP_SIZE / Math.max(dimensions.canvasWidth, dimensions.canvasHeight);
+  const zoomButtonClass = 'px-2 py-1 bg-slate-100 text-slate-700 rounded font-medium text-sm hover:bg-slate-200 disabled:opacity-50';
+
   return (
-    <div className="flex justify-center items-start bg-white rounded-lg shadow-md p-6">
-      <canvas
-        ref={canvasRef}
-        width={dimensions.canvasWidth}
-        height={dimensions.canvasHeight}
-        onMouseDown={handleMouseDown}
-        onMouseMove={handleMouseMove}
-        onMouseUp={handleMouseUp}
-        onMouseLeave={handleMouseLeave}
-        onContextMenu={handleContextMenu}
-        className="border-2 border-gray-400 cursor-crosshair"
-        style={{ touchAction: 'none' }}
-      />
+    <div
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+      className={`flex flex-col items-center bg-white rounded-lg shadow-md p-6 ${
+        isDragOver ? 'ring-4 ring-slate-400' : ''
+      }`}
+    >
+      <div className="relative">
+        <canvas
+          ref={canvasRef}
+          width={dimensions.canvasWidth}
+          height={dimensions.canvasHeight}
+          onMouseDown={handleMouseDown}
+          onMouseMove={handleMouseMove}
+          onMouseUp={handleMouseUp}
+          onMouseLeave={handleMouseLeave}
+          onContextMenu={handleContextMenu}
+          className={`border-2 border-gray-400 ${cursorClass}`}
+          style={{ touchAction: 'none' }}
+        />
+        {zoomed && (
+          <canvas
+            ref={minimapRef}
+            width={Math.max(1, Math.round(dimensions.canvasWidth * minimapScale))}
+            height={Math.max(1, Math.round(dimensions.canvasHeight * minimapScale))}
+            onMouseDown={handleMinimapMouse}
+            onMouseMove={handleMinimapMouse}
+            title="Minimap: click to move the view"
+            className="absolute top-2 right-2 border border-gray-400 bg-white shadow-md opacity-90 cursor-pointer"
+          />
+        )}
+      </div>
+
+      <div className="flex items-center gap-2 mt-3">
+        <button onClick={() => zoomAtCenter(-1)} disabled={!zoomed} title="Zoom out" className={zoomButtonClass}>
+          −
+        </button>
+        <span className="w-14 text-center text-sm text-gray-600">
+          {Math.round((view.cellSize / dimensions.cellSize) * 100)}%
+        </span>
+        <button
+          onClick={() => zoomAtCenter(1)}
+          disabled={view.cellSize >= Math.max(dimensions.cellSize, MAX_ZOOM_CELL_SIZE)}
+          title="Zoom in"
+          className={zoomButtonClass}
+        >
+          +
+        </button>
+        <button onClick={() => setView(fitViewport(dimensions))} disabled={!zoomed} className={zoomButtonClass}>
+          Fit to view
+        </button>
+        <span className="text-xs text-gray-500 ml-2">
+          Scroll to zoom, space+drag or middle mouse to pan
+        </span>
+      </div>
     </div>
   );
 });
 
 GridCanvas.displayName = 'GridCanvas';
 
-export default GridCanvas;
\ No newline at end of file
+export default GridCanvas;
@@ -0,0 +1,214 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { ColorTheme, MazeDocument } from '@/types';
+import type { GrayImage } from '@/utils/imageImport';
+import { detectGridSize, getCellLuminance, loadGrayImage, otsuThreshold, thresholdCells } from '@/utils/imageImport';
+import { MAX_GRID_SIZE, MIN_GRID_SIZE, isValidGridSize } from '@/utils/gridUtils';
+import { renderAllCells } from '@/utils/canvasRenderer';
+
+interface ImageImportSectionProps {
+  colors: ColorTheme;
+  onImportDocument: (doc: MazeDocument, source: string) => void;
+  onImportError: (message: string) => void;
+}
+
+// longest side of the two preview canvases, in css pixels
+const PREVIEW_SIZE = 160;
+
+const inputClass = 'w-full mt-1 px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-slate-500';
+
+function ImageImportSection({ colors, onImportDocument, onImportError }: ImageImportSectionProps) {
+  const [image, setImage] = useState<GrayImage | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState('21');
+  const [cols, setCols] = useState('21');
+  const [threshold, setThreshold] = useState(128);
+  const [invert, setInvert] = useState(false);
+  const [detectMessage, setDetectMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const sourceCanvasRef = useRef<HTMLCanvasElement>(null);
+  const previewCanvasRef = useRef<HTMLCanvasElement>(null);
+
+  const rowCount = parseInt(rows);
+  const colCount = parseInt(cols);
+
+  const luminance = useMemo(
+    () => (image && isValidGridSize(rowCount, colCount)
+      ? getCellLuminance(image, { rows: rowCount, cols: colCount })
+      : null),
+    [image, rowCount, colCount]
+  );
+  const grid = useMemo(
+    () => (luminance ? thresholdCells(luminance, { rows: rowCount, cols: colCount }, threshold, invert) : null),
+    [luminance, rowCount, colCount, threshold, invert]
+  );
+
+  useEffect(() => {
+    const canvas = sourceCanvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !image) return;
+
+    const data = ctx.createImageData(image.width, image.height);
+    image.pixels.forEach((value, i) => {
+      data.data.set([value, value, value, 255], i * 4);
+    });
+    canvas.width = image.width;
+    canvas.height = image.height;
+    ctx.putImageData(data, 0, 0);
+  }, [image]);
+
+  useEffect(() => {
+    const canvas = previewCanvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !grid) return;
+
+    const cellSize = Math.max(1, Math.floor(PREVIEW_SIZE / Math.max(grid.length, grid[0].length)));
+    canvas.width = grid[0].length * cellSize;
+    canvas.height = grid.length * cellSize;
+    renderAllCells(ctx, grid, cellSize, colors);
+  }, [grid, colors]);
+
+  // re-runs detection and resets the threshold to the automatic cut for the detected size
+  const applyDetection = (source: GrayImage) => {
+    const detected = detectGridSize(source);
+    if (detected) {
+      setRows(String(detected.rows));
+      setCols(String(detected.cols));
+      setThreshold(otsuThreshold(getCellLuminance(source, detected)));
+      setDetectMessage(`Detected a ${detected.rows}x${detected.cols} grid`);
+    } else {
+      setDetectMessage('No regular grid found, enter the rows and columns');
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const loaded = await loadGrayImage(file);
+      setImage(loaded);
+      setFileName(file.name);
+      applyDetection(loaded);
+    } catch {
+      onImportError(`Could not read ${file.name} as an image`);
+    }
+  };
+
+  const handleAutoThreshold = () => {
+    if (luminance) {
+      setThreshold(otsuThreshold(luminance));
+    }
+  };
+
+  const handleLoad = () => {
+    if (grid) {
+      onImportDocument({ grid, starts: [], goals: [], generation: null }, fileName);
+    }
+  };
+
+  const handleClose = () => {
+    setImage(null);
+    setDetectMessage(null);
+  };
+
+  return (
+    <div className="mt-2">
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        className="w-full px-4 py-2 bg-slate-100 text-slate-700 rounded-lg font-medium hover:bg-slate-200"
+      >
+        Open image
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/*"
+        onChange={handleFileChange}
+        className="hidden"
+      />
+
+      {image && (
+        <div className="mt-2 p-3 bg-gray-50 rounded border border-gray-200 space-y-3">
+          <div className="flex justify-between items-center">
+            <span className="text-xs font-medium text-gray-700 truncate">{fileName}</span>
+            <button onClick={handleClose} className="text-xs text-slate-600 hover:text-slate-800">
+              Close
+            </button>
+          </div>
+
+          <div className="grid grid-cols-3 gap-2 items-end">
+            <label className="text-xs text-gray-600">
+              Rows
+              <input type="number" min={MIN_GRID_SIZE} max={MAX_GRID_SIZE} value={rows}
+                onChange={(e) => setRows(e.target.value)} className={inputClass} />
+            </label>
+            <label className="text-xs text-gray-600">
+              Columns
+              <input type="number" min={MIN_GRID_SIZE} max={MAX_GRID_SIZE} value={cols}
+                onChange={(e) => setCols(e.target.value)} className={inputClass} />
+            </label>
+            <button
+              onClick={() => applyDetection(image)}
+              className="px-2 py-1 text-sm bg-slate-100 text-slate-700 rounded hover:bg-slate-200"
+            >
+              Detect
+            </button>
+          </div>
+          {detectMessage && <p className="text-xs text-gray-500">{detectMessage}</p>}
+
+          <div>
+            <div className="flex justify-between items-center mb-1">
+              <label className="text-xs text-gray-600">Threshold: {threshold}</label>
+              <button onClick={handleAutoThreshold} className="text-xs text-slate-600 hover:text-slate-800">
+                Auto
+              </button>
+            </div>
+            <input
+              type="range"
+              min="1"
+              max="255"
+              value={threshold}
+              onChange={(e) => setThreshold(parseInt(e.target.value))}
+              className="w-full accent-slate-600"
+            />
+            <label className="flex items-center gap-2 mt-1 text-xs text-gray-700 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={invert}
+                onChange={(e) => setInvert(e.target.checked)}
+                className="w-3 h-3 accent-slate-600"
+              />
+              Light cells are walls
+            </label>
+          </div>
+
+          <div className="flex gap-2 justify-center items-start">
+            <canvas
+              ref={sourceCanvasRef}
+              className="border border-gray-300"
+              style={{ maxWidth: PREVIEW_SIZE, maxHeight: PREVIEW_SIZE }}
+            />
+            {grid ? (
+              <canvas ref={previewCanvasRef} className="border border-gray-300" />
+            ) : (
+              <p className="text-xs text-red-600 w-40">
+                Rows and columns must be between {MIN_GRID_SIZE} and {MAX_GRID_SIZE}
+              </p>
+            )}
+          </div>
+
+          <button
+            onClick={handleLoad}
+            disabled={!grid}
+            className="w-full px-4 py-2 bg-slate-700 text-white rounded-lg font-medium hover:bg-slate-800 disabled:bg-gray-300 disabled:cursor-not-allowed"
+          >
+            Load into editor
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ImageImportSection;
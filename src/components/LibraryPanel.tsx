@@ -0,0 +1,254 @@
+import { useEffect, useState } from 'react';
+import type { ColorTheme, MazeDocument } from '@/types';
+import type { LibraryEntry } from '@/utils/mazeStorage';
+import {
+  createLibraryEntry,
+  deleteLibraryEntry,
+  duplicateLibraryEntry,
+  listLibrary,
+  loadLibraryEntry,
+  matchesTagSearch,
+  parseTags,
+  putLibraryEntry,
+  updateLibraryEntry
+} from '@/utils/mazeStorage';
+
+interface LibraryPanelProps {
+  doc: MazeDocument;
+  colors: ColorTheme;
+  // the entry the editor content was opened from or last saved to
+  currentId: string | null;
+  onCurrentIdChange: (id: string | null) => void;
+  onOpen: (doc: MazeDocument, name: string) => void;
+}
+
+interface LibraryRowProps {
+  entry: LibraryEntry;
+  isCurrent: boolean;
+  onOpen: () => void;
+  onRename: (name: string, tags: string[]) => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+  onTagClick: (tag: string) => void;
+}
+
+const inputClass = 'w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-slate-500';
+
+function LibraryRow({ entry, isCurrent, onOpen, onRename, onDuplicate, onDelete, onTagClick }: LibraryRowProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [name, setName] = useState(entry.name);
+  const [tags, setTags] = useState(entry.tags.join(', '));
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const startEditing = () => {
+    setName(entry.name);
+    setTags(entry.tags.join(', '));
+    setIsEditing(true);
+  };
+
+  const commitEdit = () => {
+    const trimmed = name.trim();
+    if (trimmed !== '') {
+      onRename(trimmed, parseTags(tags));
+    }
+    setIsEditing(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      commitEdit();
+    } else if (e.key === 'Escape') {
+      setIsEditing(false);
+    }
+  };
+
+  return (
+    <div className={`flex gap-2 p-2 rounded border ${isCurrent ? 'border-slate-500 bg-slate-50' : 'border-gray-200'}`}>
+      <button onClick={onOpen} title="Open in the editor" className="shrink-0">
+        <img
+          src={entry.thumbnail}
+          alt=""
+          className="w-12 h-12 object-contain border border-gray-200 bg-white"
+          style={{ imageRendering: 'pixelated' }}
+        />
+      </button>
+
+      <div className="flex-1 min-w-0">
+        {isEditing ? (
+          <div className="space-y-1">
+            <input type="text" value={name} autoFocus onChange={(e) => setName(e.target.value)}
+              onKeyDown={handleKeyDown} className={inputClass} />
+            <input type="text" value={tags} placeholder="tags" onChange={(e) => setTags(e.target.value)}
+              onKeyDown={handleKeyDown} className={inputClass} />
+            <div className="flex gap-2">
+              <button onClick={commitEdit} className="text-xs text-slate-700 hover:text-slate-900 font-medium">Save</button>
+              <button onClick={() => setIsEditing(false)} className="text-xs text-slate-500 hover:text-slate-700">Cancel</button>
+            </div>
+          </div>
+        ) : (
+          <>
+            <div className="text-sm font-medium text-gray-800 truncate" title={entry.name}>{entry.name}</div>
+            <div className="text-xs text-gray-500">
+              {entry.rows}x{entry.cols} · {new Date(entry.updatedAt).toLocaleDateString()}
+            </div>
+            {entry.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-1">
+                {entry.tags.map((tag) => (
+                  <button
+                    key={tag}
+                    onClick={() => onTagClick(tag)}
+                    className="px-1.5 text-xs bg-gray-100 text-gray-600 rounded hover:bg-gray-200"
+                  >
+                    {tag}
+                  </button>
+                ))}
+              </div>
+            )}
+            <div className="flex gap-2 mt-1">
+              <button onClick={onOpen} className="text-xs text-slate-700 hover:text-slate-900 font-medium">Open</button>
+              <button onClick={startEditing} className="text-xs text-slate-600 hover:text-slate-800">Rename</button>
+              <button onClick={onDuplicate} className="text-xs text-slate-600 hover:text-slate-800">Duplicate</button>
+              {confirmDelete ? (
+                <button onClick={onDelete} onBlur={() => setConfirmDelete(false)} autoFocus
+                  className="text-xs text-red-600 hover:text-red-800 font-medium">
+                  Really delete?
+                </button>
+              ) : (
+                <button onClick={() => setConfirmDelete(true)} className="text-xs text-red-600 hover:text-red-800">Delete</button>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function LibraryPanel({ doc, colors, currentId, onCurrentIdChange, onOpen }: LibraryPanelProps) {
+  const [entries, setEntries] = useState<LibraryEntry[]>([]);
+  const [newName, setNewName] = useState('');
+  const [newTags, setNewTags] = useState('');
+  const [search, setSearch] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      setEntries(await listLibrary());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const current = entries.find((entry) => entry.id === currentId) ?? null;
+  const visible = entries.filter((entry) => matchesTagSearch(entry, search));
+
+  // every change goes through the database and is then read back, so the list matches what is stored
+  const store = async (action: () => Promise<void>) => {
+    try {
+      await action();
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+    await refresh();
+  };
+
+  const handleSaveNew = () => store(async () => {
+    const entry = createLibraryEntry(doc, newName.trim() || `Maze ${entries.length + 1}`, parseTags(newTags), colors);
+    await putLibraryEntry(entry);
+    onCurrentIdChange(entry.id);
+    setNewName('');
+    setNewTags('');
+  });
+
+  const handleSaveCurrent = () => store(async () => {
+    if (current) {
+      await putLibraryEntry(updateLibraryEntry(current, doc, colors));
+    }
+  });
+
+  const handleOpen = (entry: LibraryEntry) => {
+    try {
+      onOpen(loadLibraryEntry(entry), entry.name);
+      onCurrentIdChange(entry.id);
+    } catch (err) {
+      setError(`Could not open ${entry.name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const handleRename = (entry: LibraryEntry, name: string, tags: string[]) => store(() =>
+    putLibraryEntry({ ...entry, name, tags, updatedAt: new Date().toISOString() }));
+
+  const handleDuplicate = (entry: LibraryEntry) => store(() => putLibraryEntry(duplicateLibraryEntry(entry)));
+
+  const handleDelete = (entry: LibraryEntry) => store(async () => {
+    await deleteLibraryEntry(entry.id);
+    if (entry.id === currentId) {
+      onCurrentIdChange(null);
+    }
+  });
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4">
+      <h2 className="text-lg font-semibold mb-4 text-gray-700">Library</h2>
+
+      {current && (
+        <div className="mb-3 flex items-center gap-2">
+          <span className="flex-1 min-w-0 text-xs text-gray-600 truncate">Editing <strong>{current.name}</strong></span>
+          <button
+            onClick={handleSaveCurrent}
+            className="px-3 py-1 text-sm bg-slate-700 text-white rounded hover:bg-slate-800"
+          >
+            Save
+          </button>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <input type="text" value={newName} placeholder="Name" onChange={(e) => setNewName(e.target.value)} className={inputClass} />
+        <input type="text" value={newTags} placeholder="Tags, comma separated" onChange={(e) => setNewTags(e.target.value)} className={inputClass} />
+        <button
+          onClick={handleSaveNew}
+          className="w-full px-4 py-2 bg-slate-100 text-slate-700 rounded-lg font-medium hover:bg-slate-200"
+        >
+          {current ? 'Save as new maze' : 'Save to library'}
+        </button>
+      </div>
+
+      {entries.length > 0 && (
+        <div className="mt-4">
+          <input type="search" value={search} placeholder="Filter by tag" onChange={(e) => setSearch(e.target.value)} className={inputClass} />
+          <div className="mt-2 space-y-2 max-h-96 overflow-y-auto">
+            {visible.map((entry) => (
+              <LibraryRow
+                key={entry.id}
+                entry={entry}
+                isCurrent={entry.id === currentId}
+                onOpen={() => handleOpen(entry)}
+                onRename={(name, tags) => handleRename(entry, name, tags)}
+                onDuplicate={() => handleDuplicate(entry)}
+                onDelete={() => handleDelete(entry)}
+                onTagClick={setSearch}
+              />
+            ))}
+            {visible.length === 0 && (
+              <p className="text-xs text-gray-500">No mazes tagged &quot;{search}&quot;</p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-600 mt-2">{error}</p>}
+
+      <p className="text-xs text-gray-500 mt-3 text-center">
+        The editor autosaves in this browser; the library is stored here too
+      </p>
+    </div>
+  );
+}
+
+export default LibraryPanel;
@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import type { ColorTheme, Marker } from '@/types';
+import { updateMarker } from '@/utils/markerUtils';
+
+type MarkerKind = 'start' | 'goal';
+
+interface MarkerPanelProps {
+  starts: Marker[];
+  goals: Marker[];
+  colors: ColorTheme;
+  onMarkersChange: (kind: MarkerKind, markers: Marker[]) => void;
+}
+
+interface MarkerRowProps {
+  marker: Marker;
+  color: string;
+  onChange: (changes: Partial<Marker>) => void;
+  onRemove: () => void;
+}
+
+// edits are kept locally and committed on blur so each field edit is one undo step
+function MarkerRow({ marker, color, onChange, onRemove }: MarkerRowProps) {
+  const [label, setLabel] = useState(marker.label);
+  const [reward, setReward] = useState(marker.reward?.toString() ?? '');
+  const [prevMarker, setPrevMarker] = useState(marker);
+
+  if (marker !== prevMarker) {
+    setPrevMarker(marker);
+    setLabel(marker.label);
+    setReward(marker.reward?.toString() ?? '');
+  }
+
+  const commitLabel = () => {
+    const trimmed = label.trim();
+    if (trimmed === '') {
+      setLabel(marker.label);
+    } else if (trimmed !== marker.label) {
+      onChange({ label: trimmed });
+    }
+  };
+
+  const commitReward = () => {
+    const value = reward.trim() === '' ? undefined : parseFloat(reward);
+    if (value !== undefined && !Number.isFinite(value)) {
+      setReward(marker.reward?.toString() ?? '');
+    } else if (value !== marker.reward) {
+      onChange({ reward: value });
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.currentTarget.blur();
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: color }} />
+      <input
+        type="text"
+        value={label}
+        onChange={(e) => setLabel(e.target.value)}
+        onBlur={commitLabel}
+        onKeyDown={handleKeyDown}
+        className="w-16 px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-slate-500"
+      />
+      <span className="text-xs text-gray-500 w-14 shrink-0">
+        ({marker.row}, {marker.col})
+      </span>
+      <input
+        type="text"
+        inputMode="decimal"
+        placeholder="reward"
+        value={reward}
+        onChange={(e) => setReward(e.target.value)}
+        onBlur={commitReward}
+        onKeyDown={handleKeyDown}
+        className="flex-1 min-w-0 px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-slate-500"
+      />
+      <button
+        onClick={onRemove}
+        title="Remove marker"
+        className="px-2 py-1 text-sm text-slate-500 hover:text-red-600"
+      >
+        ✕
+      </button>
+    </div>
+  );
+}
+
+function MarkerPanel({ starts, goals, colors, onMarkersChange }: MarkerPanelProps) {
+  const sections: { kind: MarkerKind; title: string; markers: Marker[]; color: string }[] = [
+    { kind: 'start', title: 'Starts', markers: starts, color: colors.start },
+    { kind: 'goal', title: 'Goals', markers: goals, color: colors.goal },
+  ];
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4">
+      <h2 className="text-lg font-semibold mb-4 text-gray-700">Markers</h2>
+
+      <div className="space-y-4">
+        {sections.map(({ kind, title, markers, color }) => (
+          <div key={kind}>
+            <h3 className="text-sm font-semibold text-gray-700 mb-2">
+              {title} ({markers.length})
+            </h3>
+            {markers.length === 0 ? (
+              <p className="text-xs text-gray-500">None placed</p>
+            ) : (
+              <div className="space-y-2">
+                {markers.map((marker, index) => (
+                  <MarkerRow
+                    key={`${index}:${marker.row},${marker.col}`}
+                    marker={marker}
+                    color={color}
+                    onChange={(changes) => onMarkersChange(kind, updateMarker(markers, index, changes))}
+                    onRemove={() => onMarkersChange(kind, markers.filter((_, i) => i !== index))}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <p className="text-xs text-gray-500 mt-3 text-center">
+        Shift+click in start/goal mode to add or remove markers
+      </p>
+    </div>
+  );
+}
+
+export default MarkerPanel;
@@ -0,0 +1,273 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { CellValue, Marker, SolverOverlay, WallGrid } from '@/types';
+import type { Heuristic, OverlayReplay, SolverAlgorithm, SolverResult } from '@/utils/pathfinding';
+import { SOLVER_ALGORITHMS, solveMaze, createOverlayReplay, getOverlayAtStep, getPathCost } from '@/utils/pathfinding';
+import { toBlockDocument, toBlockMarkers, toEdgePositions } from '@/utils/edgeMaze';
+
+interface SolverPanelProps {
+  grid: CellValue[][];
+  starts: Marker[];
+  goals: Marker[];
+  walls: WallGrid | null;
+  onOverlayChange: (overlay: SolverOverlay | null) => void;
+}
+
+const TICK_MS = 30;
+
+function SolverPanel({ grid, starts, goals, walls, onOverlayChange }: SolverPanelProps) {
+  const [algorithm, setAlgorithm] = useState<SolverAlgorithm>('astar');
+  const [heuristic, setHeuristic] = useState<Heuristic>('manhattan');
+  const [result, setResult] = useState<SolverResult | null>(null);
+  const [stepCount, setStepCount] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(30);
+  const [startIndex, setStartIndex] = useState(0);
+  const replayRef = useRef<OverlayReplay | null>(null);
+
+  const usesHeuristic = algorithm === 'astar' || algorithm === 'greedy';
+  const start = starts[Math.min(startIndex, starts.length - 1)];
+  const canSolve = start !== undefined && goals.length > 0;
+  const totalSteps = result?.steps.length ?? 0;
+  const isFinished = result !== null && stepCount >= totalSteps;
+
+  // any edit invalidates the previous run
+  useEffect(() => {
+    setResult(null);
+    setStepCount(0);
+    setIsPlaying(false);
+  }, [grid, starts, goals, walls]);
+
+  // the replay carries over between ticks; it's only rebuilt for a new run or a step back
+  const overlay = useMemo(() => {
+    if (!result) return null;
+    const replay = replayRef.current;
+    if (!replay || replay.result !== result || replay.applied > stepCount) {
+      replayRef.current = createOverlayReplay(result);
+    }
+    return getOverlayAtStep(replayRef.current!, stepCount);
+  }, [result, stepCount]);
+
+  // a thin-wall run is searched in blocks; its stats count only the blocks that are real cells
+  const cellStats = useMemo(() => {
+    if (!result || !walls) return null;
+    const expandedBefore = new Int32Array(result.steps.length + 1);
+    result.steps.forEach(({ expanded }, index) => {
+      expandedBefore[index + 1] = expandedBefore[index] + (expanded.row % 2 === 0 && expanded.col % 2 === 0 ? 1 : 0);
+    });
+    return {
+      pathLength: (result.path.length - 1) / 2,
+      pathCost: getPathCost(grid, toEdgePositions(result.path)),
+      expandedBefore
+    };
+  }, [result, grid, walls]);
+
+  useEffect(() => {
+    onOverlayChange(overlay);
+  }, [overlay, onOverlayChange]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    // speed is in steps per second; advance several steps per tick when it's high
+    const stepsPerTick = Math.max(1, Math.round((speed * TICK_MS) / 1000));
+    const interval = Math.max(TICK_MS, 1000 / speed);
+
+    const timer = setInterval(() => {
+      setStepCount((count) => Math.min(count + stepsPerTick, totalSteps));
+    }, interval);
+
+    return () => clearInterval(timer);
+  }, [isPlaying, speed, totalSteps]);
+
+  useEffect(() => {
+    if (isFinished) {
+      setIsPlaying(false);
+    }
+  }, [isFinished]);
+
+  const handleSolve = () => {
+    if (!canSolve) return;
+
+    // thin-wall mazes are searched as their block equivalent, converted only when a run starts
+    const doc = toBlockDocument({ grid, starts: [start], goals, walls, generation: null });
+    setResult(solveMaze(doc.grid, doc.starts[0], doc.goals, algorithm, heuristic));
+    setStepCount(0);
+    setIsPlaying(true);
+  };
+
+  const pathEnd = result?.path[result.path.length - 1];
+  const pathGoals = walls ? toBlockMarkers(goals) : goals;
+  const reachedGoal = pathEnd && pathGoals.find((goal) => goal.row === pathEnd.row && goal.col === pathEnd.col);
+
+  const handleStep = () => {
+    setIsPlaying(false);
+    setStepCount((count) => Math.min(count + 1, totalSteps));
+  };
+
+  const handleSkipToEnd = () => {
+    setIsPlaying(false);
+    setStepCount(totalSteps);
+  };
+
+  const handleClear = () => {
+    setResult(null);
+    setStepCount(0);
+    setIsPlaying(false);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4">
+      <h2 className="text-lg font-semibold mb-4 text-gray-700">Solver</h2>
+
+      <div className="space-y-3">
+        <div>
+          <label className="block text-sm font-medium text-gray-600 mb-1">Algorithm</label>
+          <select
+            value={algorithm}
+            onChange={(e) => setAlgorithm(e.target.value as SolverAlgorithm)}
+            className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-slate-500"
+          >
+            {SOLVER_ALGORITHMS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {starts.length > 1 && (
+          <div>
+            <label className="block text-sm font-medium text-gray-600 mb-1">Start From</label>
+            <select
+              value={Math.min(startIndex, starts.length - 1)}
+              onChange={(e) => setStartIndex(parseInt(e.target.value))}
+              className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-slate-500"
+            >
+              {starts.map((marker, index) => (
+                <option key={index} value={index}>
+                  {marker.label} ({marker.row}, {marker.col})
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {usesHeuristic && (
+          <div>
+            <label className="block text-sm font-medium text-gray-600 mb-1">Heuristic</label>
+            <select
+              value={heuristic}
+              onChange={(e) => setHeuristic(e.target.value as Heuristic)}
+              className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-slate-500"
+            >
+              <option value="manhattan">Manhattan</option>
+              <option value="euclidean">Euclidean</option>
+              <option value="chebyshev">Chebyshev</option>
+            </select>
+          </div>
+        )}
+
+        {algorithm === 'bidirectional' && (
+          <p className="text-xs text-gray-500">
+            Searching backwards can't collect keys, so doors are treated as locked.
+          </p>
+        )}
+
+        <button
+          onClick={handleSolve}
+          disabled={!canSolve}
+          className="w-full px-4 py-2 bg-slate-700 text-white rounded-lg font-medium hover:bg-slate-800 disabled:bg-gray-300 disabled:cursor-not-allowed"
+        >
+          Solve
+        </button>
+
+        {!canSolve && (
+          <p className="text-xs text-gray-500 text-center">
+            Set a start and at least one goal to run the solver
+          </p>
+        )}
+
+        {result && (
+          <>
+            <div className="grid grid-cols-4 gap-2">
+              <button
+                onClick={() => setIsPlaying(!isPlaying)}
+                disabled={isFinished}
+                className="px-2 py-2 bg-slate-100 text-slate-700 rounded font-medium text-sm hover:bg-slate-200 disabled:opacity-50"
+              >
+                {isPlaying ? 'Pause' : 'Play'}
+              </button>
+              <button
+                onClick={handleStep}
+                disabled={isFinished}
+                className="px-2 py-2 bg-slate-100 text-slate-700 rounded font-medium text-sm hover:bg-slate-200 disabled:opacity-50"
+              >
+                Step
+              </button>
+              <button
+                onClick={handleSkipToEnd}
+                disabled={isFinished}
+                className="px-2 py-2 bg-slate-100 text-slate-700 rounded font-medium text-sm hover:bg-slate-200 disabled:opacity-50"
+              >
+                End
+              </button>
+              <button
+                onClick={handleClear}
+                className="px-2 py-2 bg-slate-100 text-slate-700 rounded font-medium text-sm hover:bg-slate-200"
+              >
+                Clear
+              </button>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-600 mb-2">
+                Speed: {speed} steps/s
+              </label>
+              <input
+                type="range"
+                min="1"
+                max="500"
+                value={speed}
+                onChange={(e) => setSpeed(parseInt(e.target.value))}
+                className="w-full accent-red-600"
+              />
+            </div>
+
+            <div className="p-3 bg-gray-50 rounded border border-gray-200 text-sm space-y-1">
+              <div className="flex justify-between">
+                <span className="text-gray-600">Goal reachable</span>
+                <span className={`font-medium ${
+                  !isFinished ? 'text-gray-500' : result.reachable ? 'text-green-700' : 'text-red-700'
+                }`}>
+                  {isFinished ? (reachedGoal ? `Yes (${reachedGoal.label})` : 'No') : '…'}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">Path length</span>
+                <span className="font-medium text-gray-800">
+                  {isFinished && result.reachable ? cellStats?.pathLength ?? result.path.length - 1 : '–'}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">Path cost</span>
+                <span className="font-medium text-gray-800">
+                  {isFinished && result.reachable ? cellStats?.pathCost ?? result.pathCost : '–'}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">Nodes expanded</span>
+                <span className="font-medium text-gray-800">
+                  {cellStats
+                    ? `${cellStats.expandedBefore[Math.min(stepCount, totalSteps)]} / ${cellStats.expandedBefore[totalSteps]}`
+                    : `${Math.min(stepCount, totalSteps)} / ${result.nodesExpanded}`}
+                </span>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default SolverPanel;
@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import type { ColorTheme, MarkerShape, Theme } from '@/types';
+import { COLOR_LABELS, CUSTOM_PRESET, MARKER_SHAPES, THEME_PRESETS, getPresetTheme } from '@/utils/themes';
+
+interface ThemePanelProps {
+  theme: Theme;
+  onThemeChange: (theme: Theme) => void;
+}
+
+const selectClass = 'w-full mt-1 px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-slate-500';
+
+function ThemePanel({ theme, onThemeChange }: ThemePanelProps) {
+  const [showColors, setShowColors] = useState(false);
+
+  const handleColorChange = (key: keyof ColorTheme, color: string) => {
+    onThemeChange({ ...theme, preset: CUSTOM_PRESET, colors: { ...theme.colors, [key]: color } });
+  };
+
+  const markerFields: { label: string; value: MarkerShape; update: (shape: MarkerShape) => Theme }[] = [
+    { label: 'Start shape', value: theme.startShape, update: (shape) => ({ ...theme, startShape: shape }) },
+    { label: 'Goal shape', value: theme.goalShape, update: (shape) => ({ ...theme, goalShape: shape }) },
+  ];
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4">
+      <h2 className="text-lg font-semibold mb-4 text-gray-700">Appearance</h2>
+
+      <div className="space-y-3">
+        <label className="block text-xs text-gray-600">
+          Theme
+          <select
+            value={theme.preset}
+            onChange={(e) => onThemeChange(getPresetTheme(e.target.value))}
+            className={selectClass}
+          >
+            {THEME_PRESETS.map((preset) => (
+              <option key={preset.id} value={preset.id}>{preset.label}</option>
+            ))}
+            {theme.preset === CUSTOM_PRESET && <option value={CUSTOM_PRESET} disabled>Custom</option>}
+          </select>
+        </label>
+
+        <div className="grid grid-cols-2 gap-2">
+          {markerFields.map((field) => (
+            <label key={field.label} className="text-xs text-gray-600">
+              {field.label}
+              <select
+                value={field.value}
+                onChange={(e) => onThemeChange(field.update(e.target.value as MarkerShape))}
+                className={selectClass}
+              >
+                {MARKER_SHAPES.map((shape) => (
+                  <option key={shape.value} value={shape.value}>{shape.label}</option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={theme.showGridLines}
+            onChange={(e) => onThemeChange({ ...theme, showGridLines: e.target.checked })}
+            className="w-4 h-4 accent-slate-600"
+          />
+          Show grid lines
+        </label>
+
+        <div>
+          <div className="flex justify-between items-center">
+            <span className="text-xs text-gray-600">Colours</span>
+            <button
+              onClick={() => setShowColors(!showColors)}
+              className="text-xs text-slate-600 hover:text-slate-800"
+            >
+              {showColors ? 'Hide ▾' : 'Edit ▸'}
+            </button>
+          </div>
+
+          {showColors && (
+            <div className="mt-2 grid grid-cols-2 gap-x-3 gap-y-1">
+              {COLOR_LABELS.map(({ key, label }) => (
+                <label key={key} className="flex items-center gap-2 text-xs text-gray-700 cursor-pointer">
+                  <input
+                    type="color"
+                    value={theme.colors[key]}
+                    onChange={(e) => handleColorChange(key, e.target.value)}
+                    className="w-6 h-6 p-0 border border-gray-300 rounded cursor-pointer"
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-500 mt-3 text-center">
+        Used on the canvas and in PNG exports; saved in this browser
+      </p>
+    </div>
+  );
+}
+
+export default ThemePanel;
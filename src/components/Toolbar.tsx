@@ -1,41 +1,156 @@
-import type { DrawMode, GridSize } from '@/types';
-import { useState } from 'react';
-import { isValidGridSize } from '@/utils/gridUtils';
+import type { BrushOptions, Direction, DrawMode, DrawTool, GridLayout, GridSize, PostProcessOptions } from '@/types';
+import { useEffect, useState } from 'react';
+import { MAX_GRID_SIZE, MIN_GRID_SIZE, isValidGridSize } from '@/utils/gridUtils';
+import { isValidSeed, randomSeed } from '@/utils/random';
+import { DIRECTIONS, DOOR_PAIRS, TERRAIN_COST } from '@/utils/cellTypes';
+import type { MazeAlgorithm, MazeAlgorithmInfo } from '@/utils/mazeAlgorithms';
+import { MAZE_ALGORITHMS, getMazeAlgorithm, resolveAlgorithmParams } from '@/utils/mazeAlgorithms';
+import { DEFAULT_POST_PROCESS, hasPostProcessing } from '@/utils/postProcessing';
+import type { MarkerPlacement, MarkerPlacementOptions } from '@/utils/markerPlacement';
+import { MARKER_PLACEMENTS } from '@/utils/markerPlacement';
+import { MAX_EDGE_GRID_SIZE, canConvertLayout, getConvertedSize } from '@/utils/edgeMaze';
 
 interface ToolbarProps {
   drawMode: DrawMode;
+  drawTool: DrawTool;
+  brush: BrushOptions;
   gridSize: GridSize;
+  layout: GridLayout;
   onModeChange: (mode: DrawMode) => void;
+  onToolChange: (tool: DrawTool) => void;
+  onBrushChange: (brush: BrushOptions) => void;
   onGridSizeChange: (size: GridSize) => void;
-  onGenerateRandom: (density: number) => void;
-  onGenerateMaze: (algorithm: 'dfs' | 'prim' | 'kruskal' | 'binary') => void;
+  onLayoutChange: (layout: GridLayout) => void;
+  onGenerateRandom: (density: number, seed?: number) => void;
+  onGenerateMaze: (algorithm: MazeAlgorithm, seed?: number, params?: Record<string, number>) => void;
+  postProcess: PostProcessOptions;
+  onPostProcessChange: (options: PostProcessOptions) => void;
+  markerPlacement: MarkerPlacementOptions;
+  onMarkerPlacementChange: (options: MarkerPlacementOptions) => void;
   onClearGrid: () => void;
   onFillWalls: () => void;
   onClearMarkers: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  historyLimit: number;
+  onUndo: () => void;
+  onRedo: () => void;
+  onHistoryLimitChange: (limit: number) => void;
+  lastSeed: number | null;
 }
 
 function Toolbar({ 
   drawMode, 
+  drawTool,
+  brush,
   gridSize, 
+  layout,
   onModeChange, 
+  onToolChange,
+  onBrushChange,
   onGridSizeChange,
+  onLayoutChange,
   onGenerateRandom,
   onGenerateMaze,
+  postProcess,
+  onPostProcessChange,
+  markerPlacement,
+  onMarkerPlacementChange,
   onClearGrid,
   onFillWalls,
-  onClearMarkers
+  onClearMarkers,
+  canUndo,
+  canRedo,
+  historyLimit,
+  onUndo,
+  onRedo,
+  onHistoryLimitChange,
+  lastSeed
 }: ToolbarProps) {
   const [customRows, setCustomRows] = useState(gridSize.rows.toString());
   const [customCols, setCustomCols] = useState(gridSize.cols.toString());
   const [wallDensity, setWallDensity] = useState(0.3);
+  const [seedInput, setSeedInput] = useState('');
+  const [algorithm, setAlgorithm] = useState<MazeAlgorithm>('dfs');
+  const [algorithmParams, setAlgorithmParams] = useState<Record<string, number>>({});
+
+  const algorithmInfo = getMazeAlgorithm(algorithm);
+  const params = resolveAlgorithmParams(algorithmInfo, algorithmParams);
+
+  // an empty seed field lets the app draw a fresh seed for every run
+  const seed = seedInput === '' ? undefined : parseInt(seedInput);
+
+  const handleSeedChange = (value: string) => {
+    if (value === '' || (/^\d+$/.test(value) && isValidSeed(parseInt(value)))) {
+      setSeedInput(value);
+    }
+  };
+
+  // keep the inputs in sync when the size changes elsewhere (e.g. import)
+  useEffect(() => {
+    setCustomRows(gridSize.rows.toString());
+    setCustomCols(gridSize.cols.toString());
+  }, [gridSize]);
+
+  // room size sliders only matter once rooms are switched on
+  const postProcessFields: { id: keyof PostProcessOptions; label: string; min: number; max: number; unit?: string }[] = [
+    { id: 'sparsify', label: 'Sparsify', min: 0, max: 20, unit: ' steps' },
+    { id: 'braid', label: 'Braid', min: 0, max: 100, unit: '% of dead ends' },
+    { id: 'loops', label: 'Extra loops', min: 0, max: 200, unit: ' walls' },
+    { id: 'rooms', label: 'Rooms', min: 0, max: 20 },
+  ];
+  if (postProcess.rooms > 0) {
+    postProcessFields.push(
+      { id: 'roomMinSize', label: 'Room min size', min: 1, max: 25 },
+      { id: 'roomMaxSize', label: 'Room max size', min: 1, max: 25 },
+    );
+  }
+
+  const handlePostProcessChange = (id: keyof PostProcessOptions, value: number) => {
+    const next = { ...postProcess, [id]: value };
+    if (id === 'roomMinSize') next.roomMaxSize = Math.max(next.roomMaxSize, value);
+    if (id === 'roomMaxSize') next.roomMinSize = Math.min(next.roomMinSize, value);
+    onPostProcessChange(next);
+  };
+
+  const algorithmGroups: { category: MazeAlgorithmInfo['category']; label: string }[] = [
+    { category: 'maze', label: 'Perfect Mazes' },
+    { category: 'cave', label: 'Caves & Dungeons' },
+  ];
 
   const modes: { value: DrawMode; label: string; hint: string }[] = [
     { value: 'wall', label: 'Draw Wall', hint: 'W' },
     { value: 'walkable', label: 'Draw Walkable', hint: 'P' },
     { value: 'start', label: 'Set Start', hint: 'S' },
     { value: 'goal', label: 'Set Goal', hint: 'G' },
+    { value: 'select', label: 'Select Region', hint: 'M' },
   ];
 
+  const cellModes: { value: DrawMode; label: string; hint: string }[] = [
+    { value: 'trap', label: 'Trap (ends episode)', hint: 'T' },
+    { value: 'terrain', label: `Rough Terrain (cost ${TERRAIN_COST})`, hint: 'R' },
+    { value: 'oneway', label: 'One-Way', hint: 'O' },
+    { value: 'door', label: 'Door', hint: 'D' },
+    { value: 'key', label: 'Key', hint: 'K' },
+  ];
+
+  const tools: { value: DrawTool; label: string; title: string }[] = [
+    { value: 'brush', label: 'Brush', title: 'Paint cell by cell' },
+    { value: 'line', label: 'Line', title: 'Drag a straight line' },
+    { value: 'fill', label: 'Fill', title: 'Fill the connected region of the same cell type' },
+    { value: 'rectangle', label: 'Rect', title: 'Drag a rectangle outline' },
+    { value: 'rectangle-filled', label: 'Rect ■', title: 'Drag a filled rectangle' },
+    { value: 'ellipse', label: 'Ellipse', title: 'Drag an ellipse outline' },
+    { value: 'ellipse-filled', label: 'Ellipse ●', title: 'Drag a filled ellipse' },
+  ];
+  // shapes only make sense for modes that paint a cell value
+  const toolsApply = drawMode !== 'start' && drawMode !== 'goal' && drawMode !== 'select';
+
+  const directionArrows: Record<Direction, string> = { up: '↑', right: '→', down: '↓', left: '←' };
+
+  const [showCellTypes, setShowCellTypes] = useState(false);
+  const isCellMode = cellModes.some((mode) => mode.value === drawMode);
+
   const presetSizes = [
     { rows: 5, cols: 5, label: '5x5' },
     { rows: 10, cols: 10, label: '10x10' },
@@ -43,8 +158,18 @@ function Toolbar({
     { rows: 20, cols: 20, label: '20x20' },
     { rows: 30, cols: 30, label: '30x30' },
     { rows: 40, cols: 40, label: '40x40' },
+    { rows: 100, cols: 100, label: '100x100' },
+    { rows: 200, cols: 200, label: '200x200' },
+  ];
+
+  const layouts: { value: GridLayout; label: string; title: string }[] = [
+    { value: 'blocks', label: 'Block walls', title: 'Walls are cells of their own' },
+    { value: 'edges', label: 'Thin walls', title: 'Walls sit on the borders between cells' },
   ];
 
+  // thin-wall grids stop where their block equivalent would outgrow the editor
+  const maxGridSize = layout === 'edges' ? MAX_EDGE_GRID_SIZE : MAX_GRID_SIZE;
+
   const handlePresetSize = (size: GridSize) => {
     setCustomRows(size.rows.toString());
     setCustomCols(size.cols.toString());
@@ -57,8 +182,9 @@ function Toolbar({
       return;
     }
 
+    // allow partial values while typing; the range is checked on apply
     const num = parseInt(value);
-    if (!isNaN(num) && num >= 5 && num <= 40) {
+    if (!isNaN(num) && num >= 1 && num <= maxGridSize) {
       setCustomRows(value);
     }
   };
@@ -69,8 +195,9 @@ function Toolbar({
       return;
     }
 
+    // allow partial values while typing; the range is checked on apply
     const num = parseInt(value);
-    if (!isNaN(num) && num >= 5 && num <= 40) {
+    if (!isNaN(num) && num >= 1 && num <= maxGridSize) {
       setCustomCols(value);
     }
   };
@@ -79,10 +206,10 @@ function Toolbar({
     const rows = parseInt(customRows);
     const cols = parseInt(customCols);
 
-    if (isValidGridSize(rows, cols)) {
+    if (isValidGridSize(rows, cols) && rows <= maxGridSize && cols <= maxGridSize) {
       onGridSizeChange({ rows, cols });
     } else {
-      alert('Grid size must be between 5 and 40 for both dimensions');
+      alert(`Grid size must be between ${MIN_GRID_SIZE} and ${maxGridSize} for both dimensions`);
       setCustomRows(gridSize.rows.toString());
       setCustomCols(gridSize.cols.toString());
     }
@@ -112,13 +239,130 @@ function Toolbar({
             </button>
           ))}
         </div>
+
+        <button
+          onClick={() => setShowCellTypes(!showCellTypes)}
+          className="w-full mt-3 text-sm text-slate-600 hover:text-slate-800 flex justify-between items-center"
+        >
+          <span>More cell types</span>
+          <span>{showCellTypes || isCellMode ? '▾' : '▸'}</span>
+        </button>
+
+        {(showCellTypes || isCellMode) && (
+          <div className="space-y-2 mt-2">
+            {cellModes.map((mode) => (
+              <button
+                key={mode.value}
+                onClick={() => onModeChange(mode.value)}
+                className={`w-full px-4 py-2 rounded-lg font-medium text-sm flex justify-between items-center ${
+                  drawMode === mode.value
+                    ? 'bg-slate-700 text-white'
+                    : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+                }`}
+              >
+                <span>{mode.label}</span>
+                <span className={`text-xs px-2 py-1 rounded ${
+                  drawMode === mode.value ? 'bg-slate-800' : 'bg-slate-200'
+                }`}>
+                  {mode.hint}
+                </span>
+              </button>
+            ))}
+
+            {drawMode === 'oneway' && (
+              <div className="grid grid-cols-4 gap-2">
+                {DIRECTIONS.map((direction) => (
+                  <button
+                    key={direction}
+                    onClick={() => onBrushChange({ ...brush, direction })}
+                    title={`Only passable moving ${direction}`}
+                    className={`px-2 py-2 rounded font-medium ${
+                      brush.direction === direction
+                        ? 'bg-slate-700 text-white'
+                        : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+                    }`}
+                  >
+                    {directionArrows[direction]}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {(drawMode === 'door' || drawMode === 'key') && (
+              <div className="grid grid-cols-3 gap-2">
+                {DOOR_PAIRS.map((pair, index) => (
+                  <button
+                    key={pair}
+                    onClick={() => onBrushChange({ ...brush, pair: index })}
+                    title={`Key ${pair} opens door ${pair}`}
+                    className={`px-2 py-2 rounded font-medium ${
+                      brush.pair === index
+                        ? 'bg-slate-700 text-white'
+                        : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+                    }`}
+                  >
+                    {pair}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <h3 className="text-sm font-semibold text-gray-700 mt-4 mb-2">Tool</h3>
+        <div className="grid grid-cols-4 gap-2">
+          {tools.map((tool) => (
+            <button
+              key={tool.value}
+              onClick={() => onToolChange(tool.value)}
+              disabled={!toolsApply}
+              title={tool.title}
+              className={`px-1 py-2 rounded font-medium text-xs disabled:opacity-50 disabled:cursor-not-allowed ${
+                drawTool === tool.value
+                  ? 'bg-slate-700 text-white'
+                  : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+              }`}
+            >
+              {tool.label}
+            </button>
+          ))}
+        </div>
+
         <p className="text-xs text-gray-500 mt-3 text-center">
-          Right-click: Make walkable
+          {layout === 'edges'
+            ? 'Draw Wall: click a cell border to toggle it, right-click to remove'
+            : 'Right-click: Make walkable'}
         </p>
       </div>
 
       <div className="bg-white rounded-lg shadow-md p-4">
         <h2 className="text-lg font-semibold mb-4 text-gray-700">Grid Size</h2>
+
+        <div className="grid grid-cols-2 gap-2 mb-1">
+          {layouts.map((option) => {
+            const converted = getConvertedSize(gridSize, option.value);
+            return (
+              <button
+                key={option.value}
+                onClick={() => onLayoutChange(option.value)}
+                disabled={layout !== option.value && !canConvertLayout(gridSize, option.value)}
+                title={layout === option.value
+                  ? option.title
+                  : `${option.title}; converts the current maze to ${converted.rows}x${converted.cols}`}
+                className={`px-3 py-2 rounded font-medium text-sm disabled:opacity-50 disabled:cursor-not-allowed ${
+                  layout === option.value
+                    ? 'bg-slate-700 text-white'
+                    : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+                }`}
+              >
+                {option.label}
+              </button>
+            );
+          })}
+        </div>
+        <p className="text-xs text-gray-500 mb-4">
+          Switching converts the maze: each thin-wall cell becomes every other block cell
+        </p>
         
         <div className="grid grid-cols-2 gap-2 mb-4">
           {presetSizes.map((size) => (
@@ -139,12 +383,12 @@ function Toolbar({
         <div className="space-y-2">
           <div>
             <label className="block text-sm font-medium text-gray-600 mb-1">
-              Rows (5-40)
+              Rows ({MIN_GRID_SIZE}-{maxGridSize})
             </label>
             <input
               type="number"
-              min="5"
-              max="40"
+              min={MIN_GRID_SIZE}
+              max={maxGridSize}
               value={customRows}
               onChange={(e) => handleRowsChange(e.target.value)}
               className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-slate-500"
@@ -152,12 +396,12 @@ function Toolbar({
           </div>
           <div>
             <label className="block text-sm font-medium text-gray-600 mb-1">
-              Columns (5-40)
+              Columns ({MIN_GRID_SIZE}-{maxGridSize})
             </label>
             <input
               type="number"
-              min="5"
-              max="40"
+              min={MIN_GRID_SIZE}
+              max={maxGridSize}
               value={customCols}
               onChange={(e) => handleColsChange(e.target.value)}
               className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-slate-500"
@@ -177,6 +421,41 @@ function Toolbar({
         <h2 className="text-lg font-semibold mb-4 text-gray-700">Generate Maze</h2>
         
         <div className="space-y-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-600 mb-1">
+              Seed
+            </label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                inputMode="numeric"
+                placeholder="Random each run"
+                value={seedInput}
+                onChange={(e) => handleSeedChange(e.target.value)}
+                className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-slate-500"
+              />
+              <button
+                onClick={() => setSeedInput(randomSeed().toString())}
+                title="Randomize seed"
+                className="px-3 py-2 bg-slate-100 text-slate-700 rounded font-medium hover:bg-slate-200 text-sm"
+              >
+                Randomize
+              </button>
+            </div>
+            {lastSeed !== null && (
+              <p className="text-xs text-gray-500 mt-1">
+                Current maze seed:{' '}
+                <button
+                  onClick={() => setSeedInput(lastSeed.toString())}
+                  title="Reuse this seed"
+                  className="font-mono text-slate-700 underline"
+                >
+                  {lastSeed}
+                </button>
+              </p>
+            )}
+          </div>
+
           <div>
             <label className="block text-sm font-medium text-gray-600 mb-2">
               Wall Density: {Math.round(wallDensity * 100)}%
@@ -197,7 +476,7 @@ function Toolbar({
           </div>
 
           <button
-            onClick={() => onGenerateRandom(wallDensity)}
+            onClick={() => onGenerateRandom(wallDensity, seed)}
             className="w-full px-4 py-3 bg-red-600 text-white rounded-lg font-medium hover:bg-red-700"
           >
             Random Maze
@@ -208,46 +487,205 @@ function Toolbar({
               <div className="w-full border-t border-gray-300"></div>
             </div>
             <div className="relative flex justify-center text-sm">
-              <span className="px-2 bg-white text-gray-500">Perfect Mazes</span>
+              <span className="px-2 bg-white text-gray-500">Algorithms</span>
             </div>
           </div>
 
           <div className="space-y-2">
-            <button
-              onClick={() => onGenerateMaze('dfs')}
-              className="w-full px-3 py-2 bg-slate-600 text-white rounded font-medium hover:bg-slate-700 text-sm"
-            >
-              Long Corridors
-            </button>
-            
-            <button
-              onClick={() => onGenerateMaze('prim')}
-              className="w-full px-3 py-2 bg-slate-600 text-white rounded font-medium hover:bg-slate-700 text-sm"
-            >
-              Branching
-            </button>
-            
-            <button
-              onClick={() => onGenerateMaze('kruskal')}
-              className="w-full px-3 py-2 bg-slate-600 text-white rounded font-medium hover:bg-slate-700 text-sm"
+            <select
+              value={algorithm}
+              onChange={(e) => setAlgorithm(e.target.value as MazeAlgorithm)}
+              className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-slate-500"
             >
-              Uniform
-            </button>
-            
+              {algorithmGroups.map((group) => (
+                <optgroup key={group.category} label={group.label}>
+                  {MAZE_ALGORITHMS.filter((option) => option.category === group.category).map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </optgroup>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500">{algorithmInfo.description}</p>
+            {layout === 'edges' && !algorithmInfo.generateEdges && (
+              <p className="text-xs text-gray-500">No thin-wall version: generated as blocks, then converted</p>
+            )}
+
+            {algorithmInfo.params.map((param) => (
+              <div key={param.id}>
+                {param.options ? (
+                  <>
+                    <label className="block text-sm font-medium text-gray-600 mb-1">
+                      {param.label}
+                    </label>
+                    <select
+                      value={params[param.id]}
+                      onChange={(e) => setAlgorithmParams({ ...algorithmParams, [param.id]: parseFloat(e.target.value) })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-slate-500 text-sm"
+                    >
+                      {param.options.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  </>
+                ) : (
+                  <>
+                    <label className="block text-sm font-medium text-gray-600 mb-1">
+                      {param.label}: {params[param.id]}
+                    </label>
+                    <input
+                      type="range"
+                      min={param.min}
+                      max={param.max}
+                      step={param.step}
+                      value={params[param.id]}
+                      onChange={(e) => setAlgorithmParams({ ...algorithmParams, [param.id]: parseFloat(e.target.value) })}
+                      className="w-full accent-slate-600"
+                    />
+                  </>
+                )}
+              </div>
+            ))}
+
             <button
-              onClick={() => onGenerateMaze('binary')}
+              onClick={() => onGenerateMaze(algorithm, seed, params)}
               className="w-full px-3 py-2 bg-slate-600 text-white rounded font-medium hover:bg-slate-700 text-sm"
             >
-              Fast
+              Generate Maze
             </button>
           </div>
+
+          <div className="relative">
+            <div className="absolute inset-0 flex items-center">
+              <div className="w-full border-t border-gray-300"></div>
+            </div>
+            <div className="relative flex justify-center text-sm">
+              <span className="px-2 bg-white text-gray-500">Post-processing</span>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            {postProcessFields.map((field) => (
+              <div key={field.id}>
+                <label className="block text-sm font-medium text-gray-600 mb-1">
+                  {field.label}: {postProcess[field.id] === 0 ? 'off' : `${postProcess[field.id]}${field.unit ?? ''}`}
+                </label>
+                <input
+                  type="range"
+                  min={field.min}
+                  max={field.max}
+                  step={1}
+                  value={postProcess[field.id]}
+                  onChange={(e) => handlePostProcessChange(field.id, parseInt(e.target.value))}
+                  className="w-full accent-slate-600"
+                />
+              </div>
+            ))}
+            <div className="flex items-center justify-between">
+              <p className="text-xs text-gray-500">Runs after every generator, in this order</p>
+              <button
+                onClick={() => onPostProcessChange(DEFAULT_POST_PROCESS)}
+                disabled={!hasPostProcessing(postProcess)}
+                className="text-xs text-slate-700 underline disabled:text-gray-400 disabled:no-underline"
+              >
+                Reset
+              </button>
+            </div>
+          </div>
           
+          <div className="relative">
+            <div className="absolute inset-0 flex items-center">
+              <div className="w-full border-t border-gray-300"></div>
+            </div>
+            <div className="relative flex justify-center text-sm">
+              <span className="px-2 bg-white text-gray-500">Start &amp; Goal</span>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <select
+              value={markerPlacement.strategy}
+              onChange={(e) => onMarkerPlacementChange({ ...markerPlacement, strategy: e.target.value as MarkerPlacement })}
+              className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-slate-500"
+            >
+              {MARKER_PLACEMENTS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500">
+              {MARKER_PLACEMENTS.find((option) => option.value === markerPlacement.strategy)?.description}
+            </p>
+
+            {markerPlacement.strategy === 'random' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-600 mb-1">
+                  Minimum path length: {markerPlacement.minPathLength}
+                </label>
+                <input
+                  type="range"
+                  min="1"
+                  max="500"
+                  step="1"
+                  value={markerPlacement.minPathLength}
+                  onChange={(e) => onMarkerPlacementChange({ ...markerPlacement, minPathLength: parseInt(e.target.value) })}
+                  className="w-full accent-slate-600"
+                />
+              </div>
+            )}
+          </div>
+
           <p className="text-xs text-gray-500 text-center mt-2">
-            All guarantee solvable paths
+            Perfect mazes always have a route between any two cells; caves only with connectivity on
           </p>
         </div>
       </div>
 
+      <div className="bg-white rounded-lg shadow-md p-4">
+        <h2 className="text-lg font-semibold mb-4 text-gray-700">History</h2>
+
+        <div className="grid grid-cols-2 gap-2 mb-3">
+          <button
+            onClick={onUndo}
+            disabled={!canUndo}
+            className="px-3 py-2 bg-slate-600 text-white rounded-lg font-medium hover:bg-slate-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+          >
+            Undo
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={!canRedo}
+            className="px-3 py-2 bg-slate-600 text-white rounded-lg font-medium hover:bg-slate-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+          >
+            Redo
+          </button>
+        </div>
+
+        <label className="block text-sm font-medium text-gray-600 mb-1">
+          History Limit
+        </label>
+        <input
+          type="number"
+          min="1"
+          max="1000"
+          value={historyLimit}
+          onChange={(e) => {
+            const limit = parseInt(e.target.value);
+            if (!isNaN(limit) && limit >= 1 && limit <= 1000) {
+              onHistoryLimitChange(limit);
+            }
+          }}
+          className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-slate-500"
+        />
+        <p className="text-xs text-gray-500 mt-3 text-center">
+          Ctrl+Z: Undo · Ctrl+Shift+Z: Redo
+        </p>
+      </div>
+
       <div className="bg-white rounded-lg shadow-md p-4">
         <h2 className="text-lg font-semibold mb-4 text-gray-700">Utility Actions</h2>
         
@@ -0,0 +1,102 @@
+import type { SelectionRect } from '@/types';
+import type { GridTransform } from '@/utils/transformUtils';
+import { getSelectionSize } from '@/utils/selectionUtils';
+
+interface TransformPanelProps {
+  selection: SelectionRect | null;
+  canPaste: boolean;
+  onCopy: () => void;
+  onCut: () => void;
+  onPaste: () => void;
+  onFillSelection: () => void;
+  onClearSelection: () => void;
+  onTransformSelection: (transform: GridTransform) => void;
+  onTransformGrid: (transform: GridTransform) => void;
+}
+
+const buttonClass = 'px-2 py-2 bg-slate-100 text-slate-700 rounded font-medium text-sm hover:bg-slate-200 disabled:opacity-50 disabled:cursor-not-allowed';
+
+function TransformPanel({
+  selection,
+  canPaste,
+  onCopy,
+  onCut,
+  onPaste,
+  onFillSelection,
+  onClearSelection,
+  onTransformSelection,
+  onTransformGrid
+}: TransformPanelProps) {
+  const hasSelection = selection !== null;
+  const size = selection ? getSelectionSize(selection) : null;
+
+  const selectionTransforms: { value: GridTransform; label: string }[] = [
+    { value: 'rotate-cw', label: 'Rotate ↻' },
+    { value: 'flip-horizontal', label: 'Flip ↔' },
+    { value: 'flip-vertical', label: 'Flip ↕' },
+  ];
+
+  const gridTransforms: { value: GridTransform; label: string }[] = [
+    { value: 'rotate-cw', label: 'Rotate ↻' },
+    { value: 'rotate-ccw', label: 'Rotate ↺' },
+    { value: 'transpose', label: 'Transpose' },
+    { value: 'flip-horizontal', label: 'Mirror ↔' },
+    { value: 'flip-vertical', label: 'Mirror ↕' },
+  ];
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4">
+      <h2 className="text-lg font-semibold mb-4 text-gray-700">Transform</h2>
+
+      <div className="space-y-4">
+        <div>
+          <h3 className="text-sm font-semibold text-gray-700 mb-2">
+            Selection{size && ` (${size.rows}x${size.cols} at ${selection!.top}, ${selection!.left})`}
+          </h3>
+          <div className="grid grid-cols-3 gap-2">
+            <button onClick={onCopy} disabled={!hasSelection} className={buttonClass}>Copy</button>
+            <button onClick={onCut} disabled={!hasSelection} className={buttonClass}>Cut</button>
+            <button onClick={onPaste} disabled={!canPaste} className={buttonClass}>Paste</button>
+            <button onClick={onFillSelection} disabled={!hasSelection} className={buttonClass}>Fill Walls</button>
+            <button onClick={onClearSelection} disabled={!hasSelection} className={buttonClass}>Clear</button>
+            {selectionTransforms.map((transform) => (
+              <button
+                key={transform.value}
+                onClick={() => onTransformSelection(transform.value)}
+                disabled={!hasSelection}
+                className={buttonClass}
+              >
+                {transform.label}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            {hasSelection
+              ? 'Ctrl+C / Ctrl+X / Ctrl+V, Delete clears, Esc deselects. Paste lands at the cursor.'
+              : 'Switch to Select Region (M) and drag on the grid to select cells'}
+          </p>
+        </div>
+
+        <div>
+          <h3 className="text-sm font-semibold text-gray-700 mb-2">Whole Grid</h3>
+          <div className="grid grid-cols-3 gap-2">
+            {gridTransforms.map((transform) => (
+              <button
+                key={transform.value}
+                onClick={() => onTransformGrid(transform.value)}
+                className={buttonClass}
+              >
+                {transform.label}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            Starts and goals move with the cells
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default TransformPanel;
@@ -0,0 +1,138 @@
+import { useState } from 'react';
+import type { CellValue, Marker, Theme, WallGrid } from '@/types';
+import type { VectorExportOptions, VectorMarkerStyle, VectorWallStyle } from '@/utils/vectorExport';
+import { DEFAULT_VECTOR_OPTIONS, exportToPDF, exportToSVG } from '@/utils/vectorExport';
+import { downloadFile } from '@/utils/exportUtils';
+import { toBlockDocument } from '@/utils/edgeMaze';
+
+interface VectorExportSectionProps {
+  grid: CellValue[][];
+  starts: Marker[];
+  goals: Marker[];
+  // thin-wall mazes are drawn as their block equivalent
+  walls: WallGrid | null;
+  theme: Theme;
+}
+
+const inputClass = 'w-full mt-1 px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-slate-500';
+
+const toggleFields: { key: 'gridLines' | 'coordinates' | 'solutionPath'; label: string }[] = [
+  { key: 'gridLines', label: 'Grid lines' },
+  { key: 'coordinates', label: 'Coordinate labels' },
+  { key: 'solutionPath', label: 'Solution path' },
+];
+
+function VectorExportSection({ grid, starts, goals, walls, theme }: VectorExportSectionProps) {
+  const [options, setOptions] = useState<VectorExportOptions>(DEFAULT_VECTOR_OPTIONS);
+  const [showOptions, setShowOptions] = useState(false);
+
+  const handleNumberChange = (key: 'cellSize' | 'margin', value: string, min: number) => {
+    const num = parseFloat(value);
+    if (!isNaN(num) && num >= min) {
+      setOptions({ ...options, [key]: num });
+    }
+  };
+
+  const handleExportSVG = () => {
+    const doc = toBlockDocument({ grid, starts, goals, walls, generation: null });
+    const timestamp = new Date().toISOString().split('T')[0];
+    downloadFile(exportToSVG(doc.grid, doc.starts, doc.goals, theme, options), `maze_${timestamp}.svg`, 'image/svg+xml');
+  };
+
+  const handleExportPDF = async () => {
+    const doc = toBlockDocument({ grid, starts, goals, walls, generation: null });
+    const timestamp = new Date().toISOString().split('T')[0];
+    downloadFile(await exportToPDF(doc.grid, doc.starts, doc.goals, theme, options), `maze_${timestamp}.pdf`, 'application/pdf');
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-sm font-semibold text-gray-700">Vector (SVG / PDF)</h3>
+        <button
+          onClick={() => setShowOptions(!showOptions)}
+          className="text-xs text-slate-600 hover:text-slate-800"
+        >
+          {showOptions ? 'Hide options ▾' : 'Options ▸'}
+        </button>
+      </div>
+
+      {showOptions && (
+        <div className="mb-2 p-3 bg-gray-50 rounded border border-gray-200 space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <label className="text-xs text-gray-600">
+              Cell size (pt)
+              <input type="number" min="1" step="1" defaultValue={options.cellSize}
+                onChange={(e) => handleNumberChange('cellSize', e.target.value, 1)} className={inputClass} />
+            </label>
+            <label className="text-xs text-gray-600">
+              Margin (pt)
+              <input type="number" min="0" step="1" defaultValue={options.margin}
+                onChange={(e) => handleNumberChange('margin', e.target.value, 0)} className={inputClass} />
+            </label>
+            <label className="text-xs text-gray-600">
+              Walls
+              <select
+                value={options.wallStyle}
+                onChange={(e) => setOptions({ ...options, wallStyle: e.target.value as VectorWallStyle })}
+                className={inputClass}
+              >
+                <option value="filled">Filled blocks</option>
+                <option value="outline">Outlines</option>
+              </select>
+            </label>
+            <label className="text-xs text-gray-600">
+              Markers
+              <select
+                value={options.markerStyle}
+                onChange={(e) => setOptions({ ...options, markerStyle: e.target.value as VectorMarkerStyle })}
+                className={inputClass}
+              >
+                <option value="shapes">Shapes</option>
+                <option value="letters">Letters only</option>
+                <option value="none">None</option>
+              </select>
+            </label>
+          </div>
+
+          <div className="flex flex-wrap gap-x-4 gap-y-1">
+            {toggleFields.map((field) => (
+              <label key={field.key} className="flex items-center gap-1 text-xs text-gray-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={options[field.key]}
+                  onChange={(e) => setOptions({ ...options, [field.key]: e.target.checked })}
+                  className="w-3 h-3 accent-slate-600"
+                />
+                {field.label}
+              </label>
+            ))}
+          </div>
+          {options.solutionPath && (
+            <p className="text-xs text-gray-500">The path runs from the first start to the nearest goal</p>
+          )}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          onClick={handleExportSVG}
+          className="flex-1 px-4 py-2 bg-slate-700 text-white rounded-lg font-medium hover:bg-slate-800"
+        >
+          Download .svg
+        </button>
+        <button
+          onClick={handleExportPDF}
+          className="flex-1 px-4 py-2 bg-slate-700 text-white rounded-lg font-medium hover:bg-slate-800"
+        >
+          Download .pdf
+        </button>
+      </div>
+      <p className="text-xs text-gray-500 mt-1">
+        Drawn in the current theme; walls are merged into as few shapes as possible
+      </p>
+    </div>
+  );
+}
+
+export default VectorExportSection;
@@ -1,24 +1,115 @@
 
-export type CellValue = 0 | 1;
+// 0 = wall and 1 = walkable; the richer codes are described in utils/cellTypes
+export type CellValue = 0 | 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9 | 10 | 11 | 12 | 13;
 
-export type DrawMode = "wall" | "walkable" | "start" | "goal";
+export type DrawMode = "wall" | "walkable" | "start" | "goal" | "trap" | "terrain" | "oneway" | "door" | "key" | "select";
+
+// how a painting mode is applied: freehand, a shape dragged out from the first cell, or a bucket fill
+export type DrawTool = "brush" | "line" | "rectangle" | "rectangle-filled" | "ellipse" | "ellipse-filled" | "fill";
+
+export type Direction = "up" | "right" | "down" | "left";
+
+export interface BrushOptions {
+    direction: Direction;
+    pair: number;
+}
 
 export interface Position {
     row: number;
     col: number;
 }
 
+export interface Marker extends Position {
+    label: string;
+    reward?: number;
+}
+
+// inclusive cell bounds of a rectangular selection
+export interface SelectionRect {
+    top: number;
+    left: number;
+    bottom: number;
+    right: number;
+}
+
 export interface GridSize {
     rows: number;
     cols: number;
 }
 
+// passes applied to a freshly generated grid; zero turns a pass off
+export interface PostProcessOptions {
+    sparsify: number;
+    braid: number;
+    loops: number;
+    rooms: number;
+    roomMinSize: number;
+    roomMaxSize: number;
+}
+
+export interface GenerationInfo {
+    algorithm: string;
+    seed: number;
+    params?: Record<string, number>;
+    postProcess?: PostProcessOptions;
+}
+
+// blocks: walls are cells of their own; edges: thin walls between cells, kept in a WallGrid
+export type GridLayout = "blocks" | "edges";
+
+// bit flags for the north, east, south and west wall of each cell; the bits are in utils/edgeMaze
+export type WallGrid = number[][];
+
+export interface MazeDocument {
+    grid: CellValue[][];
+    starts: Marker[];
+    goals: Marker[];
+    generation?: GenerationInfo | null;
+    // set for thin-wall mazes, whose grid then holds what is inside each cell
+    walls?: WallGrid | null;
+}
+
+export interface EditorSnapshot extends MazeDocument {
+    gridSize: GridSize;
+}
+
+export interface ImportStatus {
+    type: "success" | "error";
+    message: string;
+}
+
 export interface ColorTheme {
     wall: string;
     walkable: string;
     start: string;
     goal: string;
     grid: string;
+    trap: string;
+    terrain: string;
+    oneWay: string;
+    door: string;
+    key: string;
+    explored: string;
+    frontier: string;
+    path: string;
+    unreachable: string;
+}
+
+export type MarkerShape = "circle" | "square" | "diamond" | "triangle";
+
+// everything about how the grid is drawn, shared by the canvas and the png export
+export interface Theme {
+    preset: string;
+    colors: ColorTheme;
+    startShape: MarkerShape;
+    goalShape: MarkerShape;
+    showGridLines: boolean;
+}
+
+export interface SolverOverlay {
+    explored: Position[];
+    frontier: Position[];
+    path: Position[];
 }
 
 export interface CanvasDimensions {
@@ -27,4 +118,11 @@ export interface CanvasDimensions {
     cellSize: number;
     canvasWidth: number;
     canvasHeight: number;
+}
+
+// zoomed cell size in canvas pixels and where the grid's top-left corner sits on the canvas
+export interface Viewport {
+    cellSize: number;
+    offsetX: number;
+    offsetY: number;
 }
\ No newline at end of file
@@ -0,0 +1,203 @@
+import type { CellValue, GenerationInfo, Marker, PostProcessOptions } from '@/types';
+import type { MazeAlgorithm } from '@/utils/mazeAlgorithms';
+import { getMazeAlgorithm, resolveAlgorithmParams } from '@/utils/mazeAlgorithms';
+import type { MarkerPlacementOptions } from '@/utils/markerPlacement';
+import { placeMarkers } from '@/utils/markerPlacement';
+import { applyPostProcessing, hasPostProcessing } from '@/utils/postProcessing';
+import { analyzeMaze, toAnalysisMetadata } from '@/utils/mazeAnalysis';
+import { buildJSONDocument } from '@/utils/exportUtils';
+import { gridToNpy } from '@/utils/numpyUtils';
+import type { ZipEntry } from '@/utils/zipUtils';
+import { createZip } from '@/utils/zipUtils';
+import { MIN_GRID_SIZE, MAX_GRID_SIZE } from '@/utils/gridUtils';
+import { createRandom, isValidSeed } from '@/utils/random';
+
+export const BATCH_FORMAT = 'maze-grid-editor-batch-v1';
+
+// keeps a batch inside what a browser tab can hold and a zip can index
+export const MAX_BATCH_COUNT = 10000;
+
+export type BatchOutput = 'jsonl' | 'zip-json' | 'zip-npy' | 'zip-both';
+
+export interface BatchExportOptions {
+  count: number;
+  minSize: number;
+  maxSize: number;
+  algorithms: MazeAlgorithm[];
+  // seeds are tried in order from first to last until `count` mazes pass the filter
+  firstSeed: number;
+  lastSeed: number;
+  postProcess: PostProcessOptions;
+  markerPlacement: MarkerPlacementOptions;
+  minDifficulty: number;
+  invertValues: boolean;
+  output: BatchOutput;
+}
+
+export interface BatchProgress {
+  accepted: number;
+  attempted: number;
+}
+
+export interface BatchResult {
+  data: Uint8Array<ArrayBuffer>;
+  filename: string;
+  mimeType: string;
+  accepted: number;
+  attempted: number;
+}
+
+interface BatchMaze {
+  grid: CellValue[][];
+  starts: Marker[];
+  goals: Marker[];
+  generation: GenerationInfo;
+  analysis: ReturnType<typeof analyzeMaze>;
+}
+
+
+export function validateBatchOptions(options: BatchExportOptions): string | null {
+  if (!Number.isInteger(options.count) || options.count < 1 || options.count > MAX_BATCH_COUNT) {
+    return `Count must be between 1 and ${MAX_BATCH_COUNT}`;
+  }
+  if (options.minSize < MIN_GRID_SIZE || options.maxSize > MAX_GRID_SIZE || options.minSize > options.maxSize) {
+    return `Sizes must be between ${MIN_GRID_SIZE} and ${MAX_GRID_SIZE}, smallest first`;
+  }
+  if (options.algorithms.length === 0) {
+    return 'Pick at least one algorithm';
+  }
+  if (!isValidSeed(options.firstSeed) || !isValidSeed(options.lastSeed) || options.firstSeed > options.lastSeed) {
+    return 'Seeds must be unsigned 32-bit integers, first seed not above the last';
+  }
+  return null;
+}
+
+
+// the seed alone picks the size and algorithm and then drives the generator, so any maze
+// in the manifest can be rebuilt from its seed and the batch options
+export function generateBatchMaze(seed: number, options: BatchExportOptions): BatchMaze {
+  const random = createRandom(seed);
+  const algorithm = options.algorithms[Math.floor(random() * options.algorithms.length)];
+  const span = options.maxSize - options.minSize + 1;
+  const size = {
+    rows: options.minSize + Math.floor(random() * span),
+    cols: options.minSize + Math.floor(random() * span)
+  };
+
+  const info = getMazeAlgorithm(algorithm);
+  const params = resolveAlgorithmParams(info);
+  const grid = applyPostProcessing(info.generate(size, seed, params), options.postProcess, seed);
+  const { starts, goals } = placeMarkers(grid, options.markerPlacement, seed, { starts: [], goals: [] });
+
+  return {
+    grid,
+    starts,
+    goals,
+    generation: {
+      algorithm,
+      seed,
+      ...(info.params.length > 0 && { params }),
+      ...(hasPostProcessing(options.postProcess) && { postProcess: options.postProcess })
+    },
+    analysis: analyzeMaze(grid, starts, goals)
+  };
+}
+
+
+function passesFilter(maze: BatchMaze, minDifficulty: number): boolean {
+  return minDifficulty <= 0 || (maze.analysis.difficulty !== null && maze.analysis.difficulty >= minDifficulty);
+}
+
+
+export function runBatchExport(
+  options: BatchExportOptions,
+  onProgress: (progress: BatchProgress) => void = () => {}
+): BatchResult {
+  const error = validateBatchOptions(options);
+  if (error) {
+    throw new Error(error);
+  }
+
+  const encoder = new TextEncoder();
+  const lines: string[] = [];
+  const entries: ZipEntry[] = [];
+  const manifest: object[] = [];
+  let attempted = 0;
+
+  for (let seed = options.firstSeed; seed <= options.lastSeed && manifest.length < options.count; seed++) {
+    attempted++;
+    const maze = generateBatchMaze(seed, options);
+
+    if (passesFilter(maze, options.minDifficulty)) {
+      const name = `maze_${String(manifest.length + 1).padStart(5, '0')}`;
+      const files: string[] = [];
+      const doc = buildJSONDocument(maze.grid, maze.starts, maze.goals, options.invertValues, maze.generation, maze.analysis);
+
+      if (options.output === 'jsonl') {
+        lines.push(JSON.stringify(doc));
+      }
+      if (options.output === 'zip-json' || options.output === 'zip-both') {
+        files.push(`mazes/${name}.json`);
+        entries.push({ name: `mazes/${name}.json`, data: encoder.encode(JSON.stringify(doc)) });
+      }
+      if (options.output === 'zip-npy' || options.output === 'zip-both') {
+        files.push(`mazes/${name}.npy`);
+        entries.push({ name: `mazes/${name}.npy`, data: gridToNpy(maze.grid, options.invertValues) });
+      }
+
+      manifest.push({
+        name,
+        files,
+        ...maze.generation,
+        rows: maze.grid.length,
+        cols: maze.grid[0]?.length || 0,
+        start: maze.starts[0] ? [maze.starts[0].row, maze.starts[0].col] : null,
+        goal: maze.goals[0] ? [maze.goals[0].row, maze.goals[0].col] : null,
+        metrics: toAnalysisMetadata(maze.analysis)
+      });
+    }
+
+    onProgress({ accepted: manifest.length, attempted });
+  }
+
+  if (manifest.length === 0) {
+    throw new Error(`None of the ${attempted} seeds produced a maze with difficulty ${options.minDifficulty} or more`);
+  }
+
+  const timestamp = new Date().toISOString().split('T')[0];
+
+  if (options.output === 'jsonl') {
+    return {
+      data: encoder.encode(lines.join('\n') + '\n'),
+      filename: `mazes_${timestamp}.jsonl`,
+      mimeType: 'application/jsonl',
+      accepted: manifest.length,
+      attempted
+    };
+  }
+
+  const manifestDoc = {
+    format: BATCH_FORMAT,
+    createdAt: new Date().toISOString(),
+    options: {
+      sizeRange: [options.minSize, options.maxSize],
+      algorithms: options.algorithms,
+      seedRange: [options.firstSeed, options.lastSeed],
+      postProcess: options.postProcess,
+      markerPlacement: options.markerPlacement,
+      minDifficulty: options.minDifficulty,
+      invertValues: options.invertValues
+    },
+    attempted,
+    mazes: manifest
+  };
+  entries.unshift({ name: 'manifest.json', data: encoder.encode(JSON.stringify(manifestDoc, null, 2)) });
+
+  return {
+    data: createZip(entries),
+    filename: `mazes_${timestamp}.zip`,
+    mimeType: 'application/zip',
+    accepted: manifest.length,
+    attempted
+  };
+}
@@ -0,0 +1,373 @@
+import type { CellValue, ColorTheme, Marker, MarkerShape, Position, SelectionRect, SolverOverlay, WallGrid } from '@/types';
+import { getCellType } from '@/utils/cellTypes';
+import { getContrastColor } from '@/utils/themes';
+import { WALL_FLAGS } from '@/utils/edgeMaze';
+
+const ARROW_ROTATION = { up: 0, right: Math.PI / 2, down: Math.PI, left: -Math.PI / 2 };
+
+
+export function getCellColor(value: CellValue, colors: ColorTheme): string {
+  switch (getCellType(value).kind) {
+    case 'wall':
+      return colors.wall;
+    case 'trap':
+      return colors.trap;
+    case 'terrain':
+      return colors.terrain;
+    case 'oneway':
+      return colors.oneWay;
+    case 'door':
+      return colors.door;
+    default:
+      return colors.walkable;
+  }
+}
+
+
+// arrows, key diamonds and pair letters drawn on top of the cell fill
+export function drawCellGlyph(
+  ctx: CanvasRenderingContext2D,
+  value: CellValue,
+  x: number,
+  y: number,
+  cellSize: number,
+  colors: ColorTheme
+) {
+  const cell = getCellType(value);
+  if (cellSize < 6 || (cell.kind !== 'oneway' && cell.kind !== 'door' && cell.kind !== 'key')) {
+    return;
+  }
+
+  const cx = x + cellSize / 2;
+  const cy = y + cellSize / 2;
+  const half = cellSize * 0.3;
+
+  ctx.save();
+
+  if (cell.direction) {
+    ctx.translate(cx, cy);
+    ctx.rotate(ARROW_ROTATION[cell.direction]);
+    ctx.fillStyle = colors.wall;
+    ctx.beginPath();
+    ctx.moveTo(0, -half);
+    ctx.lineTo(half, half * 0.6);
+    ctx.lineTo(-half, half * 0.6);
+    ctx.closePath();
+    ctx.fill();
+  } else {
+    if (cell.kind === 'key') {
+      ctx.fillStyle = colors.key;
+      ctx.beginPath();
+      ctx.moveTo(cx, cy - half);
+      ctx.lineTo(cx + half, cy);
+      ctx.lineTo(cx, cy + half);
+      ctx.lineTo(cx - half, cy);
+      ctx.closePath();
+      ctx.fill();
+    }
+
+    if (cellSize >= 12) {
+      ctx.fillStyle = cell.kind === 'door' ? colors.walkable : colors.wall;
+      ctx.font = `bold ${Math.floor(cellSize * 0.4)}px sans-serif`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(cell.pair ?? '', cx, cy + 1);
+    }
+  }
+
+  ctx.restore();
+}
+
+
+function traceMarkerShape(ctx: CanvasRenderingContext2D, shape: MarkerShape, x: number, y: number, radius: number) {
+  ctx.beginPath();
+  switch (shape) {
+    case 'square': {
+      const half = radius * 0.9;
+      ctx.rect(x - half, y - half, half * 2, half * 2);
+      break;
+    }
+    case 'diamond':
+      ctx.moveTo(x, y - radius * 1.2);
+      ctx.lineTo(x + radius * 1.2, y);
+      ctx.lineTo(x, y + radius * 1.2);
+      ctx.lineTo(x - radius * 1.2, y);
+      ctx.closePath();
+      break;
+    case 'triangle':
+      ctx.moveTo(x, y - radius * 1.2);
+      ctx.lineTo(x + radius * 1.2, y + radius * 0.9);
+      ctx.lineTo(x - radius * 1.2, y + radius * 0.9);
+      ctx.closePath();
+      break;
+    default:
+      ctx.arc(x, y, radius, 0, Math.PI * 2);
+  }
+}
+
+
+// a filled shape with the marker label written inside, or just its first letter when the label doesn't fit,
+// so starts and goals can be told apart without relying on colour
+export function drawMarker(
+  ctx: CanvasRenderingContext2D,
+  marker: Marker,
+  cellSize: number,
+  color: string,
+  shape: MarkerShape = 'circle'
+) {
+  const x = marker.col * cellSize + cellSize / 2;
+  const y = marker.row * cellSize + cellSize / 2;
+  const radius = Math.max(cellSize / 3, 3);
+
+  ctx.fillStyle = color;
+  traceMarkerShape(ctx, shape, x, y, radius);
+  ctx.fill();
+
+  if (cellSize >= 8) {
+    const text = cellSize >= 14 ? marker.label : marker.label.charAt(0);
+    ctx.save();
+    ctx.fillStyle = getContrastColor(color);
+    ctx.font = `bold ${Math.max(6, Math.floor(radius * (text.length > 2 ? 0.8 : 1)))}px sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(text, x, y + 1, cellSize - 2);
+    ctx.restore();
+  }
+}
+
+
+export function drawCell(
+  ctx: CanvasRenderingContext2D,
+  value: CellValue,
+  row: number,
+  col: number,
+  cellSize: number,
+  colors: ColorTheme
+) {
+  const x = col * cellSize;
+  const y = row * cellSize;
+  ctx.fillStyle = getCellColor(value, colors);
+  ctx.fillRect(x, y, cellSize, cellSize);
+  drawCellGlyph(ctx, value, x, y, cellSize, colors);
+}
+
+
+// every grid line in one path and a single stroke; lines sit on the first pixel of each cell
+export function drawGridLines(
+  ctx: CanvasRenderingContext2D,
+  rows: number,
+  cols: number,
+  cellSize: number,
+  color: string
+) {
+  const width = cols * cellSize;
+  const height = rows * cellSize;
+
+  ctx.beginPath();
+  for (let col = 0; col <= cols; col++) {
+    ctx.moveTo(col * cellSize + 0.5, 0);
+    ctx.lineTo(col * cellSize + 0.5, height);
+  }
+  for (let row = 0; row <= rows; row++) {
+    ctx.moveTo(0, row * cellSize + 0.5);
+    ctx.lineTo(width, row * cellSize + 0.5);
+  }
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 1;
+  ctx.stroke();
+}
+
+
+// grid lines become noise once cells are only a few pixels wide
+export function showsGridLines(cellSize: number): boolean {
+  return cellSize >= 4;
+}
+
+
+// redraws a block of cells; used for the zoomed view where only part of the grid is on screen
+export function renderCellRange(
+  ctx: CanvasRenderingContext2D,
+  grid: CellValue[][],
+  cellSize: number,
+  colors: ColorTheme,
+  range: { firstRow: number; lastRow: number; firstCol: number; lastCol: number }
+) {
+  for (let row = range.firstRow; row <= range.lastRow; row++) {
+    for (let col = range.firstCol; col <= range.lastCol; col++) {
+      drawCell(ctx, grid[row][col], row, col, cellSize, colors);
+    }
+  }
+}
+
+
+// thin walls along the cell borders; each wall is drawn once, from the cell above or left of it
+export function drawWalls(
+  ctx: CanvasRenderingContext2D,
+  walls: WallGrid,
+  cellSize: number,
+  color: string,
+  range = { firstRow: 0, lastRow: walls.length - 1, firstCol: 0, lastCol: (walls[0]?.length || 0) - 1 }
+) {
+  ctx.beginPath();
+  for (let row = range.firstRow; row <= range.lastRow; row++) {
+    for (let col = range.firstCol; col <= range.lastCol; col++) {
+      const x = col * cellSize;
+      const y = row * cellSize;
+      const flags = walls[row][col];
+      if (row === range.firstRow && flags & WALL_FLAGS.up) {
+        ctx.moveTo(x, y);
+        ctx.lineTo(x + cellSize, y);
+      }
+      if (col === range.firstCol && flags & WALL_FLAGS.left) {
+        ctx.moveTo(x, y);
+        ctx.lineTo(x, y + cellSize);
+      }
+      if (flags & WALL_FLAGS.right) {
+        ctx.moveTo(x + cellSize, y);
+        ctx.lineTo(x + cellSize, y + cellSize);
+      }
+      if (flags & WALL_FLAGS.down) {
+        ctx.moveTo(x, y + cellSize);
+        ctx.lineTo(x + cellSize, y + cellSize);
+      }
+    }
+  }
+  ctx.save();
+  ctx.strokeStyle = color;
+  ctx.lineWidth = Math.max(1, cellSize / 8);
+  ctx.lineCap = 'square';
+  ctx.stroke();
+  ctx.restore();
+}
+
+
+export function renderAllCells(
+  ctx: CanvasRenderingContext2D,
+  grid: CellValue[][],
+  cellSize: number,
+  colors: ColorTheme,
+  gridLines: boolean = true
+) {
+  const rows = grid.length;
+  const cols = grid[0]?.length || 0;
+
+  ctx.clearRect(0, 0, cols * cellSize, rows * cellSize);
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      drawCell(ctx, grid[row][col], row, col, cellSize, colors);
+    }
+  }
+
+  if (gridLines && showsGridLines(cellSize)) {
+    drawGridLines(ctx, rows, cols, cellSize, colors.grid);
+  }
+}
+
+
+// redraws only the cells that differ from `previous`; rows shared by reference are skipped
+export function renderDirtyCells(
+  ctx: CanvasRenderingContext2D,
+  previous: CellValue[][],
+  grid: CellValue[][],
+  cellSize: number,
+  colors: ColorTheme,
+  gridLines: boolean = true
+) {
+  const lines = gridLines && showsGridLines(cellSize);
+  ctx.lineWidth = 1;
+
+  for (let row = 0; row < grid.length; row++) {
+    const prevRow = previous[row];
+    const nextRow = grid[row];
+    if (prevRow === nextRow) continue;
+
+    for (let col = 0; col < nextRow.length; col++) {
+      if (prevRow[col] === nextRow[col]) continue;
+
+      drawCell(ctx, nextRow[col], row, col, cellSize, colors);
+      if (lines) {
+        ctx.strokeStyle = colors.grid;
+        ctx.strokeRect(col * cellSize + 0.5, row * cellSize + 0.5, cellSize, cellSize);
+      }
+    }
+  }
+}
+
+
+// explored and frontier cells are tinted, the path is drawn as a line through cell centres
+export function drawSolverOverlay(
+  ctx: CanvasRenderingContext2D,
+  overlay: SolverOverlay,
+  cellSize: number,
+  colors: ColorTheme
+) {
+  ctx.globalAlpha = 0.6;
+  ctx.fillStyle = colors.explored;
+  for (const pos of overlay.explored) {
+    ctx.fillRect(pos.col * cellSize + 1, pos.row * cellSize + 1, cellSize - 2, cellSize - 2);
+  }
+
+  ctx.fillStyle = colors.frontier;
+  for (const pos of overlay.frontier) {
+    ctx.fillRect(pos.col * cellSize + 1, pos.row * cellSize + 1, cellSize - 2, cellSize - 2);
+  }
+  ctx.globalAlpha = 1;
+
+  if (overlay.path.length > 1) {
+    ctx.strokeStyle = colors.path;
+    ctx.lineWidth = Math.max(cellSize / 5, 2);
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    overlay.path.forEach((pos, i) => {
+      const x = pos.col * cellSize + cellSize / 2;
+      const y = pos.row * cellSize + cellSize / 2;
+      if (i === 0) {
+        ctx.moveTo(x, y);
+      } else {
+        ctx.lineTo(x, y);
+      }
+    });
+    ctx.stroke();
+  }
+}
+
+
+// translucent cells, e.g. what a shape tool is about to paint or the unreachable part of a maze
+export function drawCellHighlight(
+  ctx: CanvasRenderingContext2D,
+  cells: Position[],
+  cellSize: number,
+  color: string,
+  alpha: number = 0.6
+) {
+  ctx.save();
+  ctx.globalAlpha = alpha;
+  ctx.fillStyle = color;
+  for (const cell of cells) {
+    ctx.fillRect(cell.col * cellSize, cell.row * cellSize, cellSize, cellSize);
+  }
+  ctx.restore();
+}
+
+
+// marching-ants outline in two tones so it shows up on both walls and open cells
+export function drawSelection(ctx: CanvasRenderingContext2D, selection: SelectionRect, cellSize: number) {
+  const x = selection.left * cellSize;
+  const y = selection.top * cellSize;
+  const width = (selection.right - selection.left + 1) * cellSize;
+  const height = (selection.bottom - selection.top + 1) * cellSize;
+
+  ctx.save();
+  ctx.fillStyle = 'rgba(59, 130, 246, 0.15)';
+  ctx.fillRect(x, y, width, height);
+
+  ctx.lineWidth = 1;
+  ctx.setLineDash([4, 4]);
+  ctx.strokeStyle = '#ffffff';
+  ctx.strokeRect(x + 0.5, y + 0.5, width - 1, height - 1);
+  ctx.lineDashOffset = 4;
+  ctx.strokeStyle = '#0f172a';
+  ctx.strokeRect(x + 0.5, y + 0.5, width - 1, height - 1);
+  ctx.restore();
+}
@@ -0,0 +1,317 @@
+import type { CellValue, GridSize, Position } from '@/types';
+import type { RandomFn } from '@/utils/random';
+import { createRandom } from '@/utils/random';
+
+// connectivity settings: leave regions as generated, wall in all but the largest,
+// or tunnel the rest into the largest
+export const CONNECTIVITY_NONE = 0;
+export const CONNECTIVITY_KEEP_LARGEST = 1;
+export const CONNECTIVITY_JOIN = 2;
+
+const STEPS: Position[] = [
+  { row: -1, col: 0 },
+  { row: 1, col: 0 },
+  { row: 0, col: -1 },
+  { row: 0, col: 1 }
+];
+
+
+function createWallGrid(size: GridSize): CellValue[][] {
+  return Array.from({ length: size.rows }, () => new Array<CellValue>(size.cols).fill(0));
+}
+
+
+// labels each 4-connected open region; returns the labels (0 for walls) and each region's size
+function labelRegions(grid: CellValue[][]) {
+  const rows = grid.length;
+  const cols = grid[0]?.length || 0;
+  const labels = new Int32Array(rows * cols);
+  const sizes: number[] = [0];
+
+  for (let start = 0; start < rows * cols; start++) {
+    if (labels[start] || grid[Math.floor(start / cols)][start % cols] === 0) continue;
+
+    const label = sizes.length;
+    let size = 0;
+    labels[start] = label;
+    const stack = [start];
+    while (stack.length > 0) {
+      const index = stack.pop()!;
+      const row = Math.floor(index / cols);
+      const col = index % cols;
+      size++;
+
+      for (const step of STEPS) {
+        const nr = row + step.row;
+        const nc = col + step.col;
+        if (nr < 0 || nr >= rows || nc < 0 || nc >= cols) continue;
+        const next = nr * cols + nc;
+        if (labels[next] || grid[nr][nc] === 0) continue;
+        labels[next] = label;
+        stack.push(next);
+      }
+    }
+    sizes.push(size);
+  }
+
+  return { labels, sizes };
+}
+
+
+function getLargestLabel(sizes: number[]): number {
+  let largest = 0;
+  for (let label = 1; label < sizes.length; label++) {
+    if (largest === 0 || sizes[label] > sizes[largest]) largest = label;
+  }
+  return largest;
+}
+
+
+export function keepLargestRegion(grid: CellValue[][]): CellValue[][] {
+  const cols = grid[0]?.length || 0;
+  const { labels, sizes } = labelRegions(grid);
+  const largest = getLargestLabel(sizes);
+
+  return grid.map((cells, row) => cells.map((cell, col) => {
+    const label = labels[row * cols + col];
+    return label === 0 || label === largest ? cell : 0;
+  }));
+}
+
+
+// a single 0-1 BFS out of the largest region, where crossing a wall costs one step and open
+// cells are free; each other region then tunnels back along the cheapest route it was reached by
+export function joinRegions(grid: CellValue[][]): CellValue[][] {
+  const rows = grid.length;
+  const cols = grid[0]?.length || 0;
+  const { labels, sizes } = labelRegions(grid);
+  const largest = getLargestLabel(sizes);
+  if (sizes.length <= 2) return grid;
+
+  const total = rows * cols;
+  const distance = new Int32Array(total).fill(-1);
+  const parent = new Int32Array(total).fill(-1);
+  // cells are pushed to the front at most once each and to the back at most twice
+  const deque = new Int32Array(total * 3);
+  let head = total;
+  let tail = total;
+
+  for (let index = 0; index < total; index++) {
+    if (labels[index] === largest) {
+      distance[index] = 0;
+      deque[tail++] = index;
+    }
+  }
+
+  while (head < tail) {
+    const index = deque[head++];
+    const row = Math.floor(index / cols);
+    const col = index % cols;
+
+    for (const step of STEPS) {
+      const nr = row + step.row;
+      const nc = col + step.col;
+      if (nr < 0 || nr >= rows || nc < 0 || nc >= cols) continue;
+      const next = nr * cols + nc;
+      const cost = grid[nr][nc] === 0 ? 1 : 0;
+      if (distance[next] !== -1 && distance[next] <= distance[index] + cost) continue;
+
+      distance[next] = distance[index] + cost;
+      parent[next] = index;
+      if (cost === 0) {
+        deque[--head] = next;
+      } else {
+        deque[tail++] = next;
+      }
+    }
+  }
+
+  // the closest cell of every region is where its tunnel starts
+  const entry = new Int32Array(sizes.length).fill(-1);
+  for (let index = 0; index < total; index++) {
+    const label = labels[index];
+    if (label === 0 || label === largest) continue;
+    if (entry[label] === -1 || distance[index] < distance[entry[label]]) {
+      entry[label] = index;
+    }
+  }
+
+  const result = grid.map(row => [...row]);
+  for (let label = 1; label < sizes.length; label++) {
+    let index = entry[label];
+    while (index !== -1 && distance[index] > 0) {
+      const row = Math.floor(index / cols);
+      const col = index % cols;
+      if (result[row][col] === 0) result[row][col] = 1;
+      index = parent[index];
+    }
+  }
+
+  return result;
+}
+
+
+export function applyConnectivity(grid: CellValue[][], connectivity: number): CellValue[][] {
+  if (connectivity === CONNECTIVITY_KEEP_LARGEST) return keepLargestRegion(grid);
+  if (connectivity === CONNECTIVITY_JOIN) return joinRegions(grid);
+  return grid;
+}
+
+
+// B/S rules count walls among the 8 neighbours, with the outside of the grid counting as wall:
+// an open cell fills in with at least `birth` walls around it, a wall stays with at least `survival`
+export function generateCave(
+  size: GridSize,
+  seed?: number,
+  wallChance: number = 0.45,
+  birth: number = 5,
+  survival: number = 4,
+  iterations: number = 4,
+  connectivity: number = CONNECTIVITY_KEEP_LARGEST
+): CellValue[][] {
+  const random = createRandom(seed);
+  const { rows, cols } = size;
+  let grid: CellValue[][] = Array.from({ length: rows }, () =>
+    Array.from({ length: cols }, (): CellValue => (random() < wallChance ? 0 : 1)));
+
+  for (let i = 0; i < iterations; i++) {
+    const previous = grid;
+    grid = previous.map((cells, row) => cells.map((cell, col) => {
+      let walls = 0;
+      for (let dRow = -1; dRow <= 1; dRow++) {
+        for (let dCol = -1; dCol <= 1; dCol++) {
+          if (dRow === 0 && dCol === 0) continue;
+          if (previous[row + dRow]?.[col + dCol] ?? 0) continue;
+          walls++;
+        }
+      }
+      const isWall = cell === 0 ? walls >= survival : walls >= birth;
+      return isWall ? 0 : 1;
+    }));
+  }
+
+  return applyConnectivity(grid, connectivity);
+}
+
+
+// each walker starts somewhere random and staggers about until it has opened its share
+// of the target coverage; several walkers can leave separate caverns
+export function generateDrunkardWalk(
+  size: GridSize,
+  seed?: number,
+  coverage: number = 0.4,
+  walkers: number = 1,
+  connectivity: number = CONNECTIVITY_JOIN
+): CellValue[][] {
+  const random = createRandom(seed);
+  const { rows, cols } = size;
+  const grid = createWallGrid(size);
+  const walkerCount = Math.max(1, Math.round(walkers));
+  const target = Math.floor(rows * cols * Math.min(1, coverage));
+  // a walker that keeps treading open ground gives up rather than looping for ever
+  const maxSteps = rows * cols * 20;
+  let opened = 0;
+
+  for (let walker = 0; walker < walkerCount; walker++) {
+    const goal = Math.floor((target * (walker + 1)) / walkerCount);
+    let row = walker === 0 ? Math.floor(rows / 2) : Math.floor(random() * rows);
+    let col = walker === 0 ? Math.floor(cols / 2) : Math.floor(random() * cols);
+
+    for (let step = 0; opened < goal && step < maxSteps; step++) {
+      if (grid[row][col] === 0) {
+        grid[row][col] = 1;
+        opened++;
+      }
+      const dir = STEPS[Math.floor(random() * STEPS.length)];
+      row = Math.min(rows - 1, Math.max(0, row + dir.row));
+      col = Math.min(cols - 1, Math.max(0, col + dir.col));
+    }
+  }
+
+  return applyConnectivity(grid, connectivity);
+}
+
+
+interface Area {
+  top: number;
+  left: number;
+  height: number;
+  width: number;
+}
+
+
+function randomBetween(random: RandomFn, min: number, max: number): number {
+  return min + Math.floor(random() * (max - min + 1));
+}
+
+
+function carveCorridor(grid: CellValue[][], from: Position, to: Position, random: RandomFn) {
+  const horizontalFirst = random() < 0.5;
+  const corner = horizontalFirst ? { row: from.row, col: to.col } : { row: to.row, col: from.col };
+
+  for (const [a, b] of [[from, corner], [corner, to]]) {
+    for (let row = Math.min(a.row, b.row); row <= Math.max(a.row, b.row); row++) {
+      for (let col = Math.min(a.col, b.col); col <= Math.max(a.col, b.col); col++) {
+        grid[row][col] = 1;
+      }
+    }
+  }
+}
+
+
+// binary space partitioning: areas split until they'd drop below the minimum room size,
+// each leaf gets a room and sibling subtrees are joined by L-shaped corridors
+export function generateBspDungeon(
+  size: GridSize,
+  seed?: number,
+  minRoomSize: number = 4,
+  connectivity: number = CONNECTIVITY_JOIN
+): CellValue[][] {
+  const random = createRandom(seed);
+  const grid = createWallGrid(size);
+  const minRoom = Math.max(2, Math.round(minRoomSize));
+  // a leaf needs room for its room plus a wall on each side
+  const minLeaf = minRoom + 2;
+
+  // returns a cell inside the subtree's rooms for the parent's corridor to aim at
+  const build = (area: Area): Position => {
+    const canSplitRows = area.height >= minLeaf * 2;
+    const canSplitCols = area.width >= minLeaf * 2;
+
+    if (canSplitRows || canSplitCols) {
+      const splitRows = canSplitRows && (!canSplitCols || (area.height === area.width ? random() < 0.5 : area.height > area.width));
+      const length = splitRows ? area.height : area.width;
+      const cut = randomBetween(random, minLeaf, length - minLeaf);
+
+      const first: Area = splitRows ? { ...area, height: cut } : { ...area, width: cut };
+      const second: Area = splitRows
+        ? { ...area, top: area.top + cut, height: area.height - cut }
+        : { ...area, left: area.left + cut, width: area.width - cut };
+
+      const a = build(first);
+      const b = build(second);
+      carveCorridor(grid, a, b, random);
+      return random() < 0.5 ? a : b;
+    }
+
+    const height = randomBetween(random, Math.min(minRoom, area.height - 2), Math.max(1, area.height - 2));
+    const width = randomBetween(random, Math.min(minRoom, area.width - 2), Math.max(1, area.width - 2));
+    const top = area.top + randomBetween(random, 1, Math.max(1, area.height - height - 1));
+    const left = area.left + randomBetween(random, 1, Math.max(1, area.width - width - 1));
+
+    for (let row = top; row < Math.min(top + height, size.rows); row++) {
+      for (let col = left; col < Math.min(left + width, size.cols); col++) {
+        grid[row][col] = 1;
+      }
+    }
+
+    return {
+      row: Math.min(size.rows - 1, top + Math.floor(height / 2)),
+      col: Math.min(size.cols - 1, left + Math.floor(width / 2))
+    };
+  };
+
+  build({ top: 0, left: 0, height: size.rows, width: size.cols });
+
+  return applyConnectivity(grid, connectivity);
+}
@@ -0,0 +1,382 @@
+import type { GridSize, Position } from '@/types';
+
+// the perfect-maze algorithms, written once on the grid of maze cells. Each one reports the passages
+// it opens through `carve`, and the block writer in mazeGenerators or the thin-wall writer in
+// edgeGenerators turns them into a grid, so a seed builds the same maze in either layout
+
+export type Carve = (from: Position, to: Position) => void;
+export type CellGenerator = (size: GridSize, random: () => number, carve: Carve) => void;
+
+// up, down, left, right; changing the order changes the maze every seed produces
+const STEPS: Position[] = [
+  { row: -1, col: 0 },
+  { row: 1, col: 0 },
+  { row: 0, col: -1 },
+  { row: 0, col: 1 }
+];
+
+
+function getCells(size: GridSize): Position[] {
+  const cells: Position[] = [];
+  for (let row = 0; row < size.rows; row++) {
+    for (let col = 0; col < size.cols; col++) {
+      cells.push({ row, col });
+    }
+  }
+  return cells;
+}
+
+
+function getNeighbors(pos: Position, size: GridSize): Position[] {
+  return STEPS
+    .map(step => ({ row: pos.row + step.row, col: pos.col + step.col }))
+    .filter(next => next.row >= 0 && next.row < size.rows && next.col >= 0 && next.col < size.cols);
+}
+
+
+function shuffle<T>(items: T[], random: () => number) {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+}
+
+
+function pickCell(size: GridSize, random: () => number): Position {
+  const index = Math.floor(random() * size.rows * size.cols);
+  return { row: Math.floor(index / size.cols), col: index % size.cols };
+}
+
+
+export function carveDFS(size: GridSize, random: () => number, carve: Carve) {
+  const visited = new Uint8Array(size.rows * size.cols);
+  const stack: Position[] = [{ row: 0, col: 0 }];
+  visited[0] = 1;
+
+  while (stack.length > 0) {
+    const current = stack[stack.length - 1];
+    const unvisited = getNeighbors(current, size).filter(next => !visited[next.row * size.cols + next.col]);
+
+    if (unvisited.length > 0) {
+      const next = unvisited[Math.floor(random() * unvisited.length)];
+      visited[next.row * size.cols + next.col] = 1;
+      carve(current, next);
+      stack.push(next);
+    } else {
+      stack.pop();
+    }
+  }
+}
+
+
+export function carvePrim(size: GridSize, random: () => number, carve: Carve) {
+  const inMaze = new Uint8Array(size.rows * size.cols);
+  const queued = new Uint8Array(size.rows * size.cols);
+  const frontiers: Position[] = [];
+
+  const add = (pos: Position) => {
+    inMaze[pos.row * size.cols + pos.col] = 1;
+    for (const next of getNeighbors(pos, size)) {
+      const index = next.row * size.cols + next.col;
+      if (!inMaze[index] && !queued[index]) {
+        queued[index] = 1;
+        frontiers.push(next);
+      }
+    }
+  };
+
+  add({ row: 0, col: 0 });
+  while (frontiers.length > 0) {
+    const index = Math.floor(random() * frontiers.length);
+    const current = frontiers[index];
+    frontiers.splice(index, 1);
+
+    const joined = getNeighbors(current, size).filter(next => inMaze[next.row * size.cols + next.col]);
+    carve(current, joined[Math.floor(random() * joined.length)]);
+    add(current);
+  }
+}
+
+
+export function carveKruskal(size: GridSize, random: () => number, carve: Carve) {
+  const parent = Int32Array.from({ length: size.rows * size.cols }, (_, i) => i);
+
+  // iterative so large grids can't overflow the call stack
+  const find = (cell: number): number => {
+    let root = cell;
+    while (parent[root] !== root) {
+      root = parent[root];
+    }
+    while (cell !== root) {
+      const next = parent[cell];
+      parent[cell] = root;
+      cell = next;
+    }
+    return root;
+  };
+
+  const edges: { from: Position; to: Position }[] = [];
+  for (const from of getCells(size)) {
+    if (from.col + 1 < size.cols) edges.push({ from, to: { row: from.row, col: from.col + 1 } });
+    if (from.row + 1 < size.rows) edges.push({ from, to: { row: from.row + 1, col: from.col } });
+  }
+  shuffle(edges, random);
+
+  for (const { from, to } of edges) {
+    const root1 = find(from.row * size.cols + from.col);
+    const root2 = find(to.row * size.cols + to.col);
+    if (root1 !== root2) {
+      carve(from, to);
+      parent[root2] = root1;
+    }
+  }
+}
+
+
+export function carveBinaryTree(size: GridSize, random: () => number, carve: Carve) {
+  for (const cell of getCells(size)) {
+    const neighbors: Position[] = [];
+    if (cell.row > 0) neighbors.push({ row: cell.row - 1, col: cell.col });
+    if (cell.col + 1 < size.cols) neighbors.push({ row: cell.row, col: cell.col + 1 });
+
+    if (neighbors.length > 0) {
+      carve(cell, neighbors[Math.floor(random() * neighbors.length)]);
+    }
+  }
+}
+
+
+// loop-erased random walks; produces a uniform spanning tree with no bias
+export function carveWilson(size: GridSize, random: () => number, carve: Carve) {
+  const cells = getCells(size);
+  const indexOf = (pos: Position) => pos.row * size.cols + pos.col;
+  const inMaze = new Uint8Array(cells.length);
+  const nextStep = new Map<number, Position>();
+
+  inMaze[indexOf(cells[Math.floor(random() * cells.length)])] = 1;
+  shuffle(cells, random);
+
+  for (const start of cells) {
+    if (inMaze[indexOf(start)]) continue;
+
+    // walk until the maze is hit; revisiting a cell overwrites its exit, which erases the loop
+    let current = start;
+    while (!inMaze[indexOf(current)]) {
+      const neighbors = getNeighbors(current, size);
+      const next = neighbors[Math.floor(random() * neighbors.length)];
+      nextStep.set(indexOf(current), next);
+      current = next;
+    }
+
+    current = start;
+    while (!inMaze[indexOf(current)]) {
+      const next = nextStep.get(indexOf(current))!;
+      inMaze[indexOf(current)] = 1;
+      carve(current, next);
+      current = next;
+    }
+  }
+}
+
+
+// a plain random walk that carves whenever it steps onto a new cell; uniform but slow to finish
+export function carveAldousBroder(size: GridSize, random: () => number, carve: Carve) {
+  const visited = new Uint8Array(size.rows * size.cols);
+
+  let current = pickCell(size, random);
+  visited[current.row * size.cols + current.col] = 1;
+  let remaining = size.rows * size.cols - 1;
+
+  while (remaining > 0) {
+    const neighbors = getNeighbors(current, size);
+    const next = neighbors[Math.floor(random() * neighbors.length)];
+
+    if (!visited[next.row * size.cols + next.col]) {
+      visited[next.row * size.cols + next.col] = 1;
+      carve(current, next);
+      remaining--;
+    }
+    current = next;
+  }
+}
+
+
+// one row at a time, tracking which cells of the current row are already connected
+export function carveEller(size: GridSize, random: () => number, carve: Carve) {
+  let sets: number[] = new Array(size.cols).fill(0);
+  let nextSet = 1;
+
+  for (let row = 0; row < size.rows; row++) {
+    const isLastRow = row + 1 >= size.rows;
+
+    for (let col = 0; col < size.cols; col++) {
+      if (sets[col] === 0) {
+        sets[col] = nextSet++;
+      }
+    }
+
+    // join neighbours in different sets at random; the last row joins them all
+    for (let col = 0; col + 1 < size.cols; col++) {
+      if (sets[col] !== sets[col + 1] && (isLastRow || random() < 0.5)) {
+        carve({ row, col }, { row, col: col + 1 });
+        const merged = sets[col + 1];
+        sets = sets.map(set => (set === merged ? sets[col] : set));
+      }
+    }
+
+    if (isLastRow) break;
+
+    // every set continues downward at least once
+    const below: number[] = new Array(size.cols).fill(0);
+    const members = new Map<number, number[]>();
+    sets.forEach((set, col) => members.set(set, [...(members.get(set) ?? []), col]));
+
+    members.forEach((columns, set) => {
+      const mustDrop = columns[Math.floor(random() * columns.length)];
+      for (const col of columns) {
+        if (col === mustDrop || random() < 0.3) {
+          carve({ row, col }, { row: row + 1, col });
+          below[col] = set;
+        }
+      }
+    });
+
+    sets = below;
+  }
+}
+
+
+// starts fully open and keeps splitting chambers with a wall that has a single gap;
+// the passages are carved once every chamber is a single cell wide
+export function carveRecursiveDivision(size: GridSize, random: () => number, carve: Carve) {
+  const eastWalls = new Uint8Array(size.rows * size.cols);
+  const southWalls = new Uint8Array(size.rows * size.cols);
+  const chambers = [{ top: 0, left: 0, bottom: size.rows - 1, right: size.cols - 1 }];
+
+  while (chambers.length > 0) {
+    const { top, left, bottom, right } = chambers.pop()!;
+    const height = bottom - top + 1;
+    const width = right - left + 1;
+    if (height < 2 || width < 2) continue;
+
+    const horizontal = height > width || (height === width && random() < 0.5);
+
+    if (horizontal) {
+      const wallAfter = top + Math.floor(random() * (height - 1));
+      const gap = left + Math.floor(random() * width);
+      for (let col = left; col <= right; col++) {
+        if (col !== gap) southWalls[wallAfter * size.cols + col] = 1;
+      }
+      chambers.push({ top, left, bottom: wallAfter, right });
+      chambers.push({ top: wallAfter + 1, left, bottom, right });
+    } else {
+      const wallAfter = left + Math.floor(random() * (width - 1));
+      const gap = top + Math.floor(random() * height);
+      for (let row = top; row <= bottom; row++) {
+        if (row !== gap) eastWalls[row * size.cols + wallAfter] = 1;
+      }
+      chambers.push({ top, left, bottom, right: wallAfter });
+      chambers.push({ top, left: wallAfter + 1, bottom, right });
+    }
+  }
+
+  for (const cell of getCells(size)) {
+    const index = cell.row * size.cols + cell.col;
+    if (cell.col + 1 < size.cols && !eastWalls[index]) carve(cell, { row: cell.row, col: cell.col + 1 });
+    if (cell.row + 1 < size.rows && !southWalls[index]) carve(cell, { row: cell.row + 1, col: cell.col });
+  }
+}
+
+
+// runs of cells carved eastward, each closed by a single passage north; the top row is one corridor
+export function carveSidewinder(size: GridSize, random: () => number, carve: Carve) {
+  for (let row = 0; row < size.rows; row++) {
+    let runStart = 0;
+
+    for (let col = 0; col < size.cols; col++) {
+      const atEastEdge = col + 1 >= size.cols;
+      const closeRun = atEastEdge || (row > 0 && random() < 0.5);
+
+      if (!closeRun) {
+        carve({ row, col }, { row, col: col + 1 });
+      } else if (row > 0) {
+        const northCol = runStart + Math.floor(random() * (col - runStart + 1));
+        carve({ row, col: northCol }, { row: row - 1, col: northCol });
+        runStart = col + 1;
+      }
+    }
+  }
+}
+
+
+// random walk until stuck, then hunt row by row for an unvisited cell next to the maze
+export function carveHuntAndKill(size: GridSize, random: () => number, carve: Carve) {
+  const visited = new Uint8Array(size.rows * size.cols);
+  const isVisited = (pos: Position) => visited[pos.row * size.cols + pos.col] === 1;
+
+  let current: Position | null = pickCell(size, random);
+  visited[current.row * size.cols + current.col] = 1;
+  // rows above this one have no unvisited cells left
+  let huntFrom = 0;
+
+  while (current) {
+    const unvisited: Position[] = getNeighbors(current, size).filter(next => !isVisited(next));
+
+    if (unvisited.length > 0) {
+      const next: Position = unvisited[Math.floor(random() * unvisited.length)];
+      visited[next.row * size.cols + next.col] = 1;
+      carve(current, next);
+      current = next;
+      continue;
+    }
+
+    current = null;
+    for (let row = huntFrom; row < size.rows && !current; row++) {
+      let rowComplete = true;
+
+      for (let col = 0; col < size.cols; col++) {
+        const candidate = { row, col };
+        if (isVisited(candidate)) continue;
+        rowComplete = false;
+
+        const joined = getNeighbors(candidate, size).filter(isVisited);
+        if (joined.length > 0) {
+          visited[row * size.cols + col] = 1;
+          carve(joined[Math.floor(random() * joined.length)], candidate);
+          current = candidate;
+          break;
+        }
+      }
+
+      if (rowComplete && row === huntFrom) {
+        huntFrom++;
+      }
+    }
+  }
+}
+
+
+// newestBias = 1 behaves like the depth-first backtracker, 0 like Prim's; values between mix the two
+export function carveGrowingTree(size: GridSize, random: () => number, carve: Carve, newestBias: number = 0.5) {
+  const visited = new Uint8Array(size.rows * size.cols);
+
+  const first = pickCell(size, random);
+  visited[first.row * size.cols + first.col] = 1;
+  const active: Position[] = [first];
+
+  while (active.length > 0) {
+    const index = random() < newestBias ? active.length - 1 : Math.floor(random() * active.length);
+    const current = active[index];
+    const unvisited = getNeighbors(current, size).filter(next => !visited[next.row * size.cols + next.col]);
+
+    if (unvisited.length === 0) {
+      active.splice(index, 1);
+      continue;
+    }
+
+    const next = unvisited[Math.floor(random() * unvisited.length)];
+    visited[next.row * size.cols + next.col] = 1;
+    carve(current, next);
+    active.push(next);
+  }
+}
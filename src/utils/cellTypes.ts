@@ -0,0 +1,134 @@
+import type { BrushOptions, CellValue, Direction, DrawMode, Position } from '@/types';
+
+export type CellKind = 'wall' | 'walkable' | 'trap' | 'terrain' | 'oneway' | 'door' | 'key';
+
+export interface CellTypeInfo {
+  value: CellValue;
+  id: string;
+  kind: CellKind;
+  label: string;
+  passable: boolean;
+  cost: number;
+  endsEpisode?: boolean;
+  direction?: Direction;
+  pair?: string;
+}
+
+export const DIRECTIONS: Direction[] = ['up', 'right', 'down', 'left'];
+
+export const DOOR_PAIRS = ['A', 'B', 'C'];
+
+export const TERRAIN_COST = 3;
+
+const DIRECTION_OFFSETS: Record<Direction, Position> = {
+  up: { row: -1, col: 0 },
+  right: { row: 0, col: 1 },
+  down: { row: 1, col: 0 },
+  left: { row: 0, col: -1 }
+};
+
+
+// the numeric codes are part of the export format, so append new types rather than renumbering
+export const CELL_TYPES: CellTypeInfo[] = [
+  { value: 0, id: 'wall', kind: 'wall', label: 'Wall', passable: false, cost: 0 },
+  { value: 1, id: 'walkable', kind: 'walkable', label: 'Walkable', passable: true, cost: 1 },
+  { value: 2, id: 'trap', kind: 'trap', label: 'Trap', passable: true, cost: 1, endsEpisode: true },
+  { value: 3, id: 'terrain', kind: 'terrain', label: 'Rough Terrain', passable: true, cost: TERRAIN_COST },
+  { value: 4, id: 'oneway_up', kind: 'oneway', label: 'One-Way Up', passable: true, cost: 1, direction: 'up' },
+  { value: 5, id: 'oneway_right', kind: 'oneway', label: 'One-Way Right', passable: true, cost: 1, direction: 'right' },
+  { value: 6, id: 'oneway_down', kind: 'oneway', label: 'One-Way Down', passable: true, cost: 1, direction: 'down' },
+  { value: 7, id: 'oneway_left', kind: 'oneway', label: 'One-Way Left', passable: true, cost: 1, direction: 'left' },
+  { value: 8, id: 'door_a', kind: 'door', label: 'Door A', passable: true, cost: 1, pair: 'A' },
+  { value: 9, id: 'door_b', kind: 'door', label: 'Door B', passable: true, cost: 1, pair: 'B' },
+  { value: 10, id: 'door_c', kind: 'door', label: 'Door C', passable: true, cost: 1, pair: 'C' },
+  { value: 11, id: 'key_a', kind: 'key', label: 'Key A', passable: true, cost: 1, pair: 'A' },
+  { value: 12, id: 'key_b', kind: 'key', label: 'Key B', passable: true, cost: 1, pair: 'B' },
+  { value: 13, id: 'key_c', kind: 'key', label: 'Key C', passable: true, cost: 1, pair: 'C' },
+];
+
+
+export function getCellType(value: CellValue): CellTypeInfo {
+  return CELL_TYPES[value];
+}
+
+
+export function isCellValue(value: unknown): value is CellValue {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value < CELL_TYPES.length;
+}
+
+
+// binary grids keep the original 0/1 export format
+export function isBinaryGrid(grid: CellValue[][]): boolean {
+  return grid.every(row => row.every(cell => cell === 0 || cell === 1));
+}
+
+
+export function getCellForMode(mode: DrawMode, brush: BrushOptions): CellValue | null {
+  switch (mode) {
+    case 'wall':
+      return 0;
+    case 'walkable':
+      return 1;
+    case 'trap':
+      return 2;
+    case 'terrain':
+      return 3;
+    case 'oneway':
+      return (4 + DIRECTIONS.indexOf(brush.direction)) as CellValue;
+    case 'door':
+      return (8 + brush.pair) as CellValue;
+    case 'key':
+      return (11 + brush.pair) as CellValue;
+    default:
+      return null;
+  }
+}
+
+
+export function getDirectionOffset(direction: Direction): Position {
+  return DIRECTION_OFFSETS[direction];
+}
+
+
+// bit used for a key/door pair in a collected-keys mask
+export function getPairBit(cell: CellTypeInfo): number {
+  return cell.pair ? 1 << DOOR_PAIRS.indexOf(cell.pair) : 0;
+}
+
+
+// one-way cells may only be entered and left by moving along their arrow;
+// doors need the matching key in `keys`, and traps end the episode so the solver avoids them
+export function canMove(
+  grid: CellValue[][],
+  from: Position,
+  to: Position,
+  keys: number = 0
+): boolean {
+  if (to.row < 0 || to.row >= grid.length || to.col < 0 || to.col >= grid[0].length) {
+    return false;
+  }
+
+  const target = getCellType(grid[to.row][to.col]);
+  if (!target.passable || target.endsEpisode) {
+    return false;
+  }
+
+  if (target.kind === 'door' && (keys & getPairBit(target)) === 0) {
+    return false;
+  }
+
+  const source = getCellType(grid[from.row][from.col]);
+  const dRow = to.row - from.row;
+  const dCol = to.col - from.col;
+
+  for (const cell of [source, target]) {
+    if (cell.direction) {
+      const offset = DIRECTION_OFFSETS[cell.direction];
+      if (offset.row !== dRow || offset.col !== dCol) {
+        return false;
+      }
+    }
+  }
+
+  return true;
+}
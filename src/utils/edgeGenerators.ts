@@ -0,0 +1,122 @@
+import type { Direction, GridSize, Position, WallGrid } from '@/types';
+import type { CellGenerator } from '@/utils/cellGenerators';
+import {
+  carveAldousBroder,
+  carveBinaryTree,
+  carveDFS,
+  carveEller,
+  carveGrowingTree,
+  carveHuntAndKill,
+  carveKruskal,
+  carvePrim,
+  carveRecursiveDivision,
+  carveSidewinder,
+  carveWilson
+} from '@/utils/cellGenerators';
+import { WALL_FLAGS, createWallGrid } from '@/utils/edgeMaze';
+import { createRandom } from '@/utils/random';
+
+// the thin-wall writer for the algorithms in cellGenerators: every cell of the grid is a maze cell,
+// so no size is shrunk, and carving clears the wall between two cells instead of opening a passage block
+
+const STEPS: { direction: Direction; opposite: Direction; row: number; col: number }[] = [
+  { direction: 'up', opposite: 'down', row: -1, col: 0 },
+  { direction: 'down', opposite: 'up', row: 1, col: 0 },
+  { direction: 'left', opposite: 'right', row: 0, col: -1 },
+  { direction: 'right', opposite: 'left', row: 0, col: 1 }
+];
+
+
+// `from` and `to` must be neighbours
+function setWallBetween(walls: WallGrid, from: Position, to: Position, present: boolean) {
+  const step = STEPS.find(option => from.row + option.row === to.row && from.col + option.col === to.col)!;
+  if (present) {
+    walls[from.row][from.col] |= WALL_FLAGS[step.direction];
+    walls[to.row][to.col] |= WALL_FLAGS[step.opposite];
+  } else {
+    walls[from.row][from.col] &= ~WALL_FLAGS[step.direction];
+    walls[to.row][to.col] &= ~WALL_FLAGS[step.opposite];
+  }
+}
+
+
+function generateWalls(size: GridSize, seed: number | undefined, generate: CellGenerator): WallGrid {
+  const walls = createWallGrid(size, true);
+  generate(size, createRandom(seed), (from, to) => setWallBetween(walls, from, to, false));
+  return walls;
+}
+
+
+export function generateEdgesDFS(size: GridSize, seed?: number): WallGrid {
+  return generateWalls(size, seed, carveDFS);
+}
+
+
+export function generateEdgesPrim(size: GridSize, seed?: number): WallGrid {
+  return generateWalls(size, seed, carvePrim);
+}
+
+
+export function generateEdgesKruskal(size: GridSize, seed?: number): WallGrid {
+  return generateWalls(size, seed, carveKruskal);
+}
+
+
+export function generateEdgesBinaryTree(size: GridSize, seed?: number): WallGrid {
+  return generateWalls(size, seed, carveBinaryTree);
+}
+
+
+export function generateEdgesWilson(size: GridSize, seed?: number): WallGrid {
+  return generateWalls(size, seed, carveWilson);
+}
+
+
+export function generateEdgesAldousBroder(size: GridSize, seed?: number): WallGrid {
+  return generateWalls(size, seed, carveAldousBroder);
+}
+
+
+export function generateEdgesEller(size: GridSize, seed?: number): WallGrid {
+  return generateWalls(size, seed, carveEller);
+}
+
+
+export function generateEdgesRecursiveDivision(size: GridSize, seed?: number): WallGrid {
+  return generateWalls(size, seed, carveRecursiveDivision);
+}
+
+
+export function generateEdgesSidewinder(size: GridSize, seed?: number): WallGrid {
+  return generateWalls(size, seed, carveSidewinder);
+}
+
+
+export function generateEdgesHuntAndKill(size: GridSize, seed?: number): WallGrid {
+  return generateWalls(size, seed, carveHuntAndKill);
+}
+
+
+export function generateEdgesGrowingTree(size: GridSize, seed?: number, newestBias: number = 0.5): WallGrid {
+  return generateWalls(size, seed, (cells, random, carve) => carveGrowingTree(cells, random, carve, newestBias));
+}
+
+
+// every interior wall is present with the given probability
+export function generateRandomWalls(size: GridSize, wallDensity: number = 0.3, seed?: number): WallGrid {
+  const random = createRandom(seed);
+  const walls = createWallGrid(size, false);
+
+  for (let row = 0; row < size.rows; row++) {
+    for (let col = 0; col < size.cols; col++) {
+      if (col + 1 < size.cols && random() < wallDensity) {
+        setWallBetween(walls, { row, col }, { row, col: col + 1 }, true);
+      }
+      if (row + 1 < size.rows && random() < wallDensity) {
+        setWallBetween(walls, { row, col }, { row: row + 1, col }, true);
+      }
+    }
+  }
+
+  return walls;
+}
@@ -0,0 +1,223 @@
+import type { CellValue, Direction, GridLayout, GridSize, Marker, MazeDocument, Position, SolverOverlay, WallGrid } from '@/types';
+import { MAX_GRID_SIZE, isValidGridSize } from '@/utils/gridUtils';
+
+// bit of each side in a cell's wall flags; part of the export format, so never renumber
+export const WALL_FLAGS: Record<Direction, number> = { up: 1, right: 2, down: 4, left: 8 };
+export const ALL_WALLS = 15;
+
+// names used for the flags in exported files
+export const WALL_NAMES: Record<Direction, string> = { up: 'north', right: 'east', down: 'south', left: 'west' };
+
+const OPPOSITE: Record<Direction, Direction> = { up: 'down', right: 'left', down: 'up', left: 'right' };
+
+// how far from a cell border, as a fraction of the cell, a click still picks the wall
+const EDGE_HIT_DISTANCE = 0.3;
+
+// an interior wall, always stored as the right or bottom side of the cell before it
+export interface WallEdge extends Position {
+  direction: 'right' | 'down';
+}
+
+
+function isBorder(rows: number, cols: number, row: number, col: number, direction: Direction): boolean {
+  return (direction === 'up' && row === 0) ||
+    (direction === 'down' && row === rows - 1) ||
+    (direction === 'left' && col === 0) ||
+    (direction === 'right' && col === cols - 1);
+}
+
+
+function getBorderFlags(rows: number, cols: number, row: number, col: number): number {
+  return (Object.keys(WALL_FLAGS) as Direction[])
+    .filter(direction => isBorder(rows, cols, row, col, direction))
+    .reduce((flags, direction) => flags | WALL_FLAGS[direction], 0);
+}
+
+
+// the outer border is always walled; `closed` also walls every cell off from its neighbours
+export function createWallGrid(size: GridSize, closed: boolean): WallGrid {
+  return Array.from({ length: size.rows }, (_, row) =>
+    Array.from({ length: size.cols }, (_, col) => closed ? ALL_WALLS : getBorderFlags(size.rows, size.cols, row, col)));
+}
+
+
+export function hasWall(walls: WallGrid, row: number, col: number, direction: Direction): boolean {
+  return (walls[row][col] & WALL_FLAGS[direction]) !== 0;
+}
+
+
+// sets the wall on both cells it separates; the border can't be opened
+export function setWall(walls: WallGrid, edge: WallEdge, present: boolean): WallGrid {
+  const { row, col, direction } = edge;
+  const rows = walls.length;
+  const cols = walls[0]?.length || 0;
+  if (isBorder(rows, cols, row, col, direction) || hasWall(walls, row, col, direction) === present) {
+    return walls;
+  }
+
+  const other = direction === 'right' ? { row, col: col + 1 } : { row: row + 1, col };
+  const newWalls = walls.slice();
+  const update = (pos: Position, side: Direction) => {
+    newWalls[pos.row] = newWalls[pos.row] === walls[pos.row] ? walls[pos.row].slice() : newWalls[pos.row];
+    newWalls[pos.row][pos.col] = present
+      ? newWalls[pos.row][pos.col] | WALL_FLAGS[side]
+      : newWalls[pos.row][pos.col] & ~WALL_FLAGS[side];
+  };
+  update({ row, col }, direction);
+  update(other, OPPOSITE[direction]);
+  return newWalls;
+}
+
+
+// the interior wall nearest a point given in cell units, or null when the point is mid-cell
+export function getWallEdgeAt(walls: WallGrid, x: number, y: number): WallEdge | null {
+  const rows = walls.length;
+  const cols = walls[0]?.length || 0;
+  const row = Math.floor(y);
+  const col = Math.floor(x);
+  if (row < 0 || row >= rows || col < 0 || col >= cols) return null;
+
+  const sides: { direction: Direction; distance: number }[] = [
+    { direction: 'up', distance: y - row },
+    { direction: 'down', distance: row + 1 - y },
+    { direction: 'left', distance: x - col },
+    { direction: 'right', distance: col + 1 - x },
+  ];
+  const nearest = sides.reduce((best, side) => side.distance < best.distance ? side : best);
+  if (nearest.distance > EDGE_HIT_DISTANCE || isBorder(rows, cols, row, col, nearest.direction)) {
+    return null;
+  }
+
+  switch (nearest.direction) {
+    case 'up':
+      return { row: row - 1, col, direction: 'down' };
+    case 'left':
+      return { row, col: col - 1, direction: 'right' };
+    default:
+      return { row, col, direction: nearest.direction };
+  }
+}
+
+
+// block grids put cell (r, c) at (2r, 2c) with the passages between cells on the odd rows and columns,
+// the same layout the block maze generators use
+export function getConvertedSize(size: GridSize, layout: GridLayout): GridSize {
+  return layout === 'edges'
+    ? { rows: Math.ceil(size.rows / 2), cols: Math.ceil(size.cols / 2) }
+    : { rows: size.rows * 2 - 1, cols: size.cols * 2 - 1 };
+}
+
+
+// the largest thin-wall grid whose block equivalent still fits within MAX_GRID_SIZE
+export const MAX_EDGE_GRID_SIZE = getConvertedSize({ rows: MAX_GRID_SIZE, cols: MAX_GRID_SIZE }, 'edges').rows;
+
+
+export function canConvertLayout(size: GridSize, layout: GridLayout): boolean {
+  const converted = getConvertedSize(size, layout);
+  return isValidGridSize(converted.rows, converted.cols);
+}
+
+
+// a corner between four cells is only open when none of the four walls meeting there is set
+export function edgesToBlocks(grid: CellValue[][], walls: WallGrid): CellValue[][] {
+  const rows = grid.length;
+  const cols = grid[0]?.length || 0;
+  const blocks: CellValue[][] = Array.from({ length: rows * 2 - 1 }, () => new Array<CellValue>(cols * 2 - 1).fill(0));
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      blocks[row * 2][col * 2] = grid[row][col];
+      if (col + 1 < cols && !hasWall(walls, row, col, 'right')) {
+        blocks[row * 2][col * 2 + 1] = 1;
+      }
+      if (row + 1 < rows && !hasWall(walls, row, col, 'down')) {
+        blocks[row * 2 + 1][col * 2] = 1;
+      }
+      if (row + 1 < rows && col + 1 < cols &&
+          !hasWall(walls, row, col, 'right') && !hasWall(walls, row, col, 'down') &&
+          !hasWall(walls, row + 1, col + 1, 'up') && !hasWall(walls, row + 1, col + 1, 'left')) {
+        blocks[row * 2 + 1][col * 2 + 1] = 1;
+      }
+    }
+  }
+
+  return blocks;
+}
+
+
+// any passage cell that isn't a wall opens the wall it stands for; an even-sized grid loses its last row or column
+export function blocksToEdges(blocks: CellValue[][]): { grid: CellValue[][]; walls: WallGrid } {
+  const size = getConvertedSize({ rows: blocks.length, cols: blocks[0]?.length || 0 }, 'edges');
+  const grid = Array.from({ length: size.rows }, (_, row) =>
+    Array.from({ length: size.cols }, (_, col) => blocks[row * 2][col * 2]));
+
+  const walls = createWallGrid(size, true);
+  for (let row = 0; row < size.rows; row++) {
+    for (let col = 0; col < size.cols; col++) {
+      if (col + 1 < size.cols && blocks[row * 2][col * 2 + 1] !== 0) {
+        walls[row][col] &= ~WALL_FLAGS.right;
+        walls[row][col + 1] &= ~WALL_FLAGS.left;
+      }
+      if (row + 1 < size.rows && blocks[row * 2 + 1][col * 2] !== 0) {
+        walls[row][col] &= ~WALL_FLAGS.down;
+        walls[row + 1][col] &= ~WALL_FLAGS.up;
+      }
+    }
+  }
+
+  return { grid, walls };
+}
+
+
+export function toBlockMarkers(markers: Marker[]): Marker[] {
+  return markers.map(marker => ({ ...marker, row: marker.row * 2, col: marker.col * 2 }));
+}
+
+
+// markers on a passage snap to the cell above or left of it
+export function toEdgeMarkers(markers: Marker[]): Marker[] {
+  return markers.map(marker => ({ ...marker, row: Math.floor(marker.row / 2), col: Math.floor(marker.col / 2) }));
+}
+
+
+// keeps the cells of a block grid path, dropping the passages between them
+export function toEdgePositions(positions: Position[]): Position[] {
+  return positions
+    .filter(pos => pos.row % 2 === 0 && pos.col % 2 === 0)
+    .map(pos => ({ row: pos.row / 2, col: pos.col / 2 }));
+}
+
+
+export function toEdgeOverlay(overlay: SolverOverlay): SolverOverlay {
+  return {
+    explored: toEdgePositions(overlay.explored),
+    frontier: toEdgePositions(overlay.frontier),
+    path: toEdgePositions(overlay.path)
+  };
+}
+
+
+// block-grid features (solver, analysis, most exports) see a thin-wall maze through this;
+// block documents pass through unchanged. The seed of a converted maze no longer reproduces it
+export function toBlockDocument(doc: MazeDocument): MazeDocument {
+  if (!doc.walls) return doc;
+  return {
+    grid: edgesToBlocks(doc.grid, doc.walls),
+    starts: toBlockMarkers(doc.starts),
+    goals: toBlockMarkers(doc.goals),
+    generation: null
+  };
+}
+
+
+export function toEdgeDocument(doc: MazeDocument): MazeDocument {
+  if (doc.walls) return doc;
+  const { grid, walls } = blocksToEdges(doc.grid);
+  return {
+    grid,
+    walls,
+    starts: toEdgeMarkers(doc.starts),
+    goals: toEdgeMarkers(doc.goals),
+    generation: null
+  };
+}
@@ -1,12 +1,105 @@
-import type { CellValue, Position } from '@/types';
+import type { CellValue, Direction, GenerationInfo, Marker, WallGrid } from '@/types';
+import { CELL_TYPES, getDirectionOffset, isBinaryGrid } from '@/utils/cellTypes';
+import type { MazeAnalysis } from '@/utils/mazeAnalysis';
+import { toAnalysisMetadata } from '@/utils/mazeAnalysis';
+import { WALL_FLAGS, WALL_NAMES } from '@/utils/edgeMaze';
+
+export const FORMAT_V1 = 'maze-grid-editor-v1';
+export const FORMAT_V2 = 'maze-grid-editor-v2';
+
+
+// python constants describing the v2 cell codes
+function getPythonCellLegend(): string {
+  const names = CELL_TYPES.map(cell => `${cell.id.toUpperCase()} = ${cell.value}`).join('\n');
+  const costs = CELL_TYPES
+    .filter(cell => cell.passable)
+    .map(cell => `${cell.value}: ${cell.cost}`)
+    .join(', ');
+  const terminal = CELL_TYPES.filter(cell => cell.endsEpisode).map(cell => cell.value).join(', ');
+  const oneWay = CELL_TYPES
+    .filter(cell => cell.direction)
+    .map(cell => {
+      const offset = getDirectionOffset(cell.direction!);
+      return `${cell.value}: (${offset.row}, ${offset.col})`;
+    })
+    .join(', ');
+  const doorKeys = CELL_TYPES
+    .filter(cell => cell.kind === 'door')
+    .map(door => {
+      const key = CELL_TYPES.find(cell => cell.kind === 'key' && cell.pair === door.pair)!;
+      return `${door.value}: ${key.value}`;
+    })
+    .join(', ');
+
+  return `# Cell codes (${FORMAT_V2})
+${names}
+
+# Traversal cost of each passable cell code; walls are impassable
+CELL_COST = {${costs}}
+
+# Entering one of these cells ends the episode
+TERMINAL_CELLS = {${terminal}}
+
+# One-way cells can only be entered and left moving by (d_row, d_col)
+ONE_WAY = {${oneWay}}
+
+# Door code -> key code that opens it
+DOOR_KEYS = {${doorKeys}}`;
+}
+
+function toPythonMarkerList(markers: Marker[]): string {
+  if (markers.length === 0) return '[]';
+
+  const items = markers.map(marker => {
+    const reward = marker.reward === undefined ? 'None' : String(marker.reward);
+    return `    {"label": ${JSON.stringify(marker.label)}, "pos": (${marker.row}, ${marker.col}), "reward": ${reward}},`;
+  });
+  return `[\n${items.join('\n')}\n]`;
+}
+
+
+const toPositionJSON = (marker: Marker | undefined) =>
+  marker ? { row: marker.row, col: marker.col } : null;
+
+
+// north/east/south/west -> bit, as written to JSON metadata
+function getWallBits(): Record<string, number> {
+  return Object.fromEntries((Object.keys(WALL_FLAGS) as Direction[]).map(side => [WALL_NAMES[side], WALL_FLAGS[side]]));
+}
+
+
+function getPythonWalls(walls: WallGrid): string {
+  const names = (Object.keys(WALL_FLAGS) as Direction[])
+    .map(side => `WALL_${WALL_NAMES[side][0].toUpperCase()} = ${WALL_FLAGS[side]}`)
+    .join('\n');
+  const rows = walls.map(row => '        [' + row.join(', ') + ']').join(',\n');
+
+  return `
+
+# Thin walls: walls[r, c] holds the flags of the walls around cell (r, c);
+# the wall between two cells is set on both of them
+${names}
+
+walls = np.array([
+${rows}
+], dtype=np.uint8)
+
+# True when cell (r, c) has no wall on the given side, e.g. is_open(0, 0, WALL_E)
+def is_open(r, c, side):
+    return (walls[r, c] & side) == 0`;
+}
+
 
 export function exportToPython(
   grid: CellValue[][], 
-  startPos: Position | null, 
-  goalPos: Position | null,
-  invertValues: boolean = false
+  starts: Marker[], 
+  goals: Marker[],
+  invertValues: boolean = false,
+  walls: WallGrid | null = null
 ): string {
-  const processedGrid = invertValues 
+  // inversion only makes sense for plain wall/walkable grids
+  const binary = isBinaryGrid(grid);
+  const processedGrid = invertValues && binary
     ? grid.map(row => row.map(cell => cell === 0 ? 1 : 0))
     : grid;
 
@@ -14,61 +107,96 @@ export function exportToPython(
     '        [' + row.join(', ') + ']'
   ).join(',\n');
 
+  const legend = binary
+    ? `# Maze configuration
+# ${invertValues ? '1' : '0'} = wall (obstacle)
+# ${invertValues ? '0' : '1'} = walkable path`
+    : getPythonCellLegend();
+
   const code = `import numpy as np
 
-# Maze configuration
-# ${invertValues ? '1' : '0'} = wall (obstacle)
-# ${invertValues ? '0' : '1'} = walkable path
+${legend}
 
 maze = np.array([
 ${rows}
-])
+])${walls ? getPythonWalls(walls) : ''}
 
 # Start and goal positions (row, col)
-start_pos = ${startPos ? `[${startPos.row}, ${startPos.col}]` : 'None  # Not set'}
-goal_pos = ${goalPos ? `[${goalPos.row}, ${goalPos.col}]` : 'None  # Not set'}
+start_pos = ${starts[0] ? `[${starts[0].row}, ${starts[0].col}]` : 'None  # Not set'}
+goal_pos = ${goals[0] ? `[${goals[0].row}, ${goals[0].col}]` : 'None  # Not set'}
+
+# All labelled markers; reward is None when not set
+starts = ${toPythonMarkerList(starts)}
+goals = ${toPythonMarkerList(goals)}
 
 # Grid dimensions
 rows, cols = maze.shape
 print(f"Maze size: {rows}x{cols}")
-print(f"Start: {start_pos}")
-print(f"Goal: {goal_pos}")
+print(f"Starts: {[s['label'] for s in starts]}")
+print(f"Goals: {[g['label'] for g in goals]}")
 `;
 
   return code;
 }
 
 
-export function exportToJSON(
+// the document behind the JSON export; batch exports write it one line per maze
+export function buildJSONDocument(
   grid: CellValue[][], 
-  startPos: Position | null, 
-  goalPos: Position | null,
-  invertValues: boolean = false
-): string {
-  const processedGrid = invertValues 
+  starts: Marker[], 
+  goals: Marker[],
+  invertValues: boolean = false,
+  generation: GenerationInfo | null = null,
+  analysis: MazeAnalysis | null = null,
+  walls: WallGrid | null = null
+) {
+  const binary = isBinaryGrid(grid);
+  const processedGrid = invertValues && binary
     ? grid.map(row => row.map(cell => cell === 0 ? 1 : 0))
     : grid;
 
-  const data = {
+  // v1 stays byte-for-byte compatible for wall/walkable mazes
+  const cellMetadata = binary
+    ? { format: FORMAT_V1, valueMapping: invertValues ? '1=wall, 0=walkable' : '0=wall, 1=walkable' }
+    : { format: FORMAT_V2, cellTypes: CELL_TYPES };
+
+  return {
     grid: processedGrid,
-    startPos: startPos || null,
-    goalPos: goalPos || null,
+    ...(walls && { walls }),
+    // single positions kept for loaders written against the original format
+    startPos: toPositionJSON(starts[0]),
+    goalPos: toPositionJSON(goals[0]),
+    starts,
+    goals,
     dimensions: {
       rows: grid.length,
       cols: grid[0]?.length || 0
     },
     metadata: {
       exportedAt: new Date().toISOString(),
-      format: 'maze-grid-editor-v1',
-      valueMapping: invertValues ? '1=wall, 0=walkable' : '0=wall, 1=walkable'
+      ...cellMetadata,
+      ...(walls && { layout: 'edges', wallBits: getWallBits() }),
+      ...(generation && { generation }),
+      ...(analysis && { analysis: toAnalysisMetadata(analysis) })
     }
   };
+}
 
-  return JSON.stringify(data, null, 2);
+
+export function exportToJSON(
+  grid: CellValue[][], 
+  starts: Marker[], 
+  goals: Marker[],
+  invertValues: boolean = false,
+  generation: GenerationInfo | null = null,
+  analysis: MazeAnalysis | null = null,
+  walls: WallGrid | null = null
+): string {
+  return JSON.stringify(buildJSONDocument(grid, starts, goals, invertValues, generation, analysis, walls), null, 2);
 }
 
 
-export function downloadFile(content: string, filename: string, mimeType: string) {
+export function downloadFile(content: BlobPart, filename: string, mimeType: string) {
   const blob = new Blob([content], { type: mimeType });
   const url = URL.createObjectURL(blob);
   const link = document.createElement('a');
@@ -1,5 +1,8 @@
 import type { CellValue, GridSize, Position } from '@/types';
 
+export const MIN_GRID_SIZE = 5;
+export const MAX_GRID_SIZE = 500;
+
 export function createEmptyGrid(size: GridSize): CellValue[][] {
     const grid: CellValue[][] = [];
     
@@ -39,20 +42,59 @@ export function arePositionsDifferent(pos1: Position | null, pos2: Position | nu
 }
 
 
+// only the touched row is copied; untouched rows are shared with the previous grid,
+// which keeps painting on large grids cheap and lets the renderer skip unchanged rows
 export function updateCell(
     grid: CellValue[][], 
     row: number, 
     col: number, 
     value: CellValue
 ): CellValue[][] {
-    return grid.map((r, rowIndex) =>
-        r.map((cell, colIndex) =>
-            rowIndex === row && colIndex === col ? value : cell
-        )
-    );
+    if (grid[row][col] === value) {
+        return grid;
+    }
+
+    const newRow = grid[row].slice();
+    newRow[col] = value;
+
+    const newGrid = grid.slice();
+    newGrid[row] = newRow;
+    return newGrid;
+}
+
+
+// paints a batch of cells, copying each touched row once
+export function updateCells(
+    grid: CellValue[][],
+    cells: Position[],
+    value: CellValue
+): CellValue[][] {
+    const copied = new Map<number, CellValue[]>();
+
+    for (const { row, col } of cells) {
+        if (grid[row][col] === value) continue;
+
+        let newRow = copied.get(row);
+        if (!newRow) {
+            newRow = grid[row].slice();
+            copied.set(row, newRow);
+        }
+        newRow[col] = value;
+    }
+
+    if (copied.size === 0) {
+        return grid;
+    }
+
+    const newGrid = grid.slice();
+    copied.forEach((newRow, row) => {
+        newGrid[row] = newRow;
+    });
+    return newGrid;
 }
 
 
 export function isValidGridSize(rows: number, cols: number): boolean {
-    return rows >= 5 && rows <= 40 && cols >= 5 && cols <= 40;
+    return rows >= MIN_GRID_SIZE && rows <= MAX_GRID_SIZE && 
+           cols >= MIN_GRID_SIZE && cols <= MAX_GRID_SIZE;
 }
\ No newline at end of file
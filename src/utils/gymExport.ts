@@ -0,0 +1,266 @@
+import type { CellValue, Marker } from '@/types';
+import { CELL_TYPES, getDirectionOffset, getPairBit } from '@/utils/cellTypes';
+
+export type GymObservation = 'coordinates' | 'onehot' | 'local';
+
+export interface GymExportOptions {
+  stepPenalty: number;
+  goalReward: number;
+  wallPenalty: number;
+  trapPenalty: number;
+  maxSteps: number;
+  observation: GymObservation;
+  viewRadius: number;
+}
+
+export const DEFAULT_GYM_OPTIONS: GymExportOptions = {
+  stepPenalty: -0.01,
+  goalReward: 1,
+  wallPenalty: -0.1,
+  trapPenalty: -1,
+  maxSteps: 200,
+  observation: 'coordinates',
+  viewRadius: 2,
+};
+
+// ascii used by render(); doors are upper case and their keys lower case
+const RENDER_CHARS: Record<string, string> = {
+  wall: '#',
+  walkable: '.',
+  trap: 'x',
+  terrain: '~',
+  oneway_up: '^',
+  oneway_right: '>',
+  oneway_down: 'v',
+  oneway_left: '<',
+  door_a: 'A',
+  door_b: 'B',
+  door_c: 'C',
+  key_a: 'a',
+  key_b: 'b',
+  key_c: 'c',
+};
+
+
+// python float literal; keeps "1.0" instead of "1" so reward types stay floats
+function pyFloat(value: number): string {
+  return Number.isInteger(value) ? value.toFixed(1) : String(value);
+}
+
+
+function pyDict(entries: [string | number, string][]): string {
+  return `{${entries.map(([key, value]) => `${key}: ${value}`).join(', ')}}`;
+}
+
+
+export function exportToGymnasium(
+  grid: CellValue[][],
+  starts: Marker[],
+  goals: Marker[],
+  options: GymExportOptions = DEFAULT_GYM_OPTIONS
+): string {
+  const rows = grid.map(row => '        [' + row.join(', ') + ']').join(',\n');
+  const startList = starts.map(s => `(${s.row}, ${s.col})`).join(', ');
+  const goalRewards = pyDict(goals.map(g => [
+    `(${g.row}, ${g.col})`,
+    g.reward === undefined ? 'None' : pyFloat(g.reward)
+  ]));
+
+  const costs = pyDict(CELL_TYPES.filter(c => c.passable).map(c => [c.value, pyFloat(c.cost)]));
+  const terminal = CELL_TYPES.filter(c => c.endsEpisode).map(c => c.value).join(', ');
+  const oneWay = pyDict(CELL_TYPES.filter(c => c.direction).map(c => {
+    const offset = getDirectionOffset(c.direction!);
+    return [c.value, `(${offset.row}, ${offset.col})`];
+  }));
+  const doorBits = pyDict(CELL_TYPES.filter(c => c.kind === 'door').map(c => [c.value, String(getPairBit(c))]));
+  const keyBits = pyDict(CELL_TYPES.filter(c => c.kind === 'key').map(c => [c.value, String(getPairBit(c))]));
+  const chars = pyDict(CELL_TYPES.map(c => [c.value, JSON.stringify(RENDER_CHARS[c.id] ?? '?')]));
+  // key flags are only part of the observation when the maze actually uses doors or keys
+  const usesKeys = grid.some(row => row.some(cell => {
+    const kind = CELL_TYPES[cell].kind;
+    return kind === 'door' || kind === 'key';
+  }));
+  const keyCount = usesKeys ? CELL_TYPES.filter(c => c.kind === 'key').length : 0;
+
+  return `"""Gymnasium environment generated by Maze Grid Editor.
+
+Actions: 0 = up, 1 = right, 2 = down, 3 = left.
+Observation: ${options.observation}${options.observation === 'local' ? ` (${options.viewRadius * 2 + 1}x${options.viewRadius * 2 + 1} view)` : ''}${keyCount > 0 ? ', followed by one flag per key held' : ''}.
+"""
+import numpy as np
+import gymnasium as gym
+from gymnasium import spaces
+
+MAZE = np.array([
+${rows}
+], dtype=np.int8)
+
+# (row, col) of each start; reset() picks one at random
+STARTS = [${startList}]
+
+# (row, col) -> reward for reaching that goal; None uses goal_reward
+GOALS = ${goalRewards}
+
+WALL = 0
+CELL_COST = ${costs}
+TERMINAL_CELLS = {${terminal}}
+ONE_WAY = ${oneWay}
+DOOR_BITS = ${doorBits}
+KEY_BITS = ${keyBits}
+NUM_KEYS = ${keyCount}
+RENDER_CHARS = ${chars}
+
+ACTIONS = [(-1, 0), (0, 1), (1, 0), (0, -1)]
+
+
+class MazeEnv(gym.Env):
+    metadata = {"render_modes": ["human", "ansi"], "render_fps": 4}
+
+    def __init__(
+        self,
+        render_mode=None,
+        step_penalty=${pyFloat(options.stepPenalty)},
+        goal_reward=${pyFloat(options.goalReward)},
+        wall_penalty=${pyFloat(options.wallPenalty)},
+        trap_penalty=${pyFloat(options.trapPenalty)},
+        max_steps=${options.maxSteps},
+        observation="${options.observation}",
+        view_radius=${options.viewRadius},
+    ):
+        super().__init__()
+        assert render_mode is None or render_mode in self.metadata["render_modes"]
+        assert observation in ("coordinates", "onehot", "local")
+
+        self.render_mode = render_mode
+        self.step_penalty = step_penalty
+        self.goal_reward = goal_reward
+        self.wall_penalty = wall_penalty
+        self.trap_penalty = trap_penalty
+        self.max_steps = max_steps
+        self.observation = observation
+        self.view_radius = view_radius
+
+        self.rows, self.cols = MAZE.shape
+        self.action_space = spaces.Discrete(len(ACTIONS))
+
+        if observation == "coordinates":
+            high = np.array([self.rows - 1, self.cols - 1] + [1] * NUM_KEYS)
+            self.observation_space = spaces.Box(low=0, high=high, dtype=np.int64)
+        elif observation == "onehot":
+            size = self.rows * self.cols + NUM_KEYS
+            self.observation_space = spaces.Box(low=0, high=1, shape=(size,), dtype=np.float32)
+        else:
+            side = 2 * view_radius + 1
+            high = len(RENDER_CHARS) - 1
+            self.observation_space = spaces.Box(low=0, high=high, shape=(side * side + NUM_KEYS,), dtype=np.int8)
+
+        self.agent = None
+        self.keys = 0
+        self.steps = 0
+
+    def _key_flags(self):
+        return [(self.keys >> i) & 1 for i in range(NUM_KEYS)]
+
+    def _get_obs(self):
+        row, col = self.agent
+        if self.observation == "coordinates":
+            return np.array([row, col] + self._key_flags(), dtype=np.int64)
+        if self.observation == "onehot":
+            obs = np.zeros(self.rows * self.cols + NUM_KEYS, dtype=np.float32)
+            obs[row * self.cols + col] = 1.0
+            obs[self.rows * self.cols:] = self._key_flags()
+            return obs
+        r = self.view_radius
+        padded = np.pad(MAZE, r, constant_values=WALL)
+        view = padded[row:row + 2 * r + 1, col:col + 2 * r + 1].flatten()
+        return np.concatenate([view, np.array(self._key_flags(), dtype=np.int8)]).astype(np.int8)
+
+    def _get_info(self):
+        return {"position": self.agent, "keys": self.keys, "steps": self.steps}
+
+    def _can_move(self, src, dst, d_row, d_col):
+        row, col = dst
+        if not (0 <= row < self.rows and 0 <= col < self.cols):
+            return False
+        target = int(MAZE[row, col])
+        if target not in CELL_COST:
+            return False
+        if target in DOOR_BITS and not self.keys & DOOR_BITS[target]:
+            return False
+        # one-way cells can only be entered and left along their arrow
+        for cell in (int(MAZE[src]), target):
+            if cell in ONE_WAY and ONE_WAY[cell] != (d_row, d_col):
+                return False
+        return True
+
+    def reset(self, seed=None, options=None):
+        super().reset(seed=seed)
+        if not STARTS:
+            raise RuntimeError("The maze has no start position")
+        self.agent = STARTS[self.np_random.integers(len(STARTS))]
+        self.keys = KEY_BITS.get(int(MAZE[self.agent]), 0)
+        self.steps = 0
+
+        if self.render_mode == "human":
+            self.render()
+        return self._get_obs(), self._get_info()
+
+    def step(self, action):
+        d_row, d_col = ACTIONS[action]
+        target = (self.agent[0] + d_row, self.agent[1] + d_col)
+        self.steps += 1
+        terminated = False
+
+        if self._can_move(self.agent, target, d_row, d_col):
+            self.agent = target
+            cell = int(MAZE[target])
+            self.keys |= KEY_BITS.get(cell, 0)
+            reward = self.step_penalty * CELL_COST[cell]
+
+            if target in GOALS:
+                goal_reward = GOALS[target]
+                reward += self.goal_reward if goal_reward is None else goal_reward
+                terminated = True
+            elif cell in TERMINAL_CELLS:
+                reward += self.trap_penalty
+                terminated = True
+        else:
+            reward = self.step_penalty + self.wall_penalty
+
+        truncated = not terminated and self.steps >= self.max_steps
+
+        if self.render_mode == "human":
+            self.render()
+        return self._get_obs(), reward, terminated, truncated, self._get_info()
+
+    def render(self):
+        lines = []
+        for row in range(self.rows):
+            line = []
+            for col in range(self.cols):
+                if (row, col) == self.agent:
+                    line.append("@")
+                elif (row, col) in GOALS:
+                    line.append("G")
+                else:
+                    line.append(RENDER_CHARS[int(MAZE[row, col])])
+            lines.append("".join(line))
+        text = "\\n".join(lines)
+
+        if self.render_mode == "ansi":
+            return text
+        print(text + "\\n")
+
+
+if __name__ == "__main__":
+    env = MazeEnv(render_mode="human")
+    obs, info = env.reset(seed=0)
+    done = False
+    total = 0.0
+    while not done:
+        obs, reward, terminated, truncated, info = env.step(env.action_space.sample())
+        total += reward
+        done = terminated or truncated
+    print(f"Episode finished after {info['steps']} steps with return {total:.2f}")
+`;
+}
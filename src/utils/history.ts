@@ -0,0 +1,79 @@
+import type { EditorSnapshot } from '@/types';
+import { markersEqual } from '@/utils/markerUtils';
+
+export interface HistoryState {
+  past: EditorSnapshot[];
+  future: EditorSnapshot[];
+}
+
+export const DEFAULT_HISTORY_LIMIT = 100;
+
+
+export function createHistory(): HistoryState {
+  return { past: [], future: [] };
+}
+
+
+// records the state *before* an edit; a new edit always discards the redo stack
+export function pushHistory(history: HistoryState, snapshot: EditorSnapshot, limit: number): HistoryState {
+  const past = [...history.past, snapshot];
+  return {
+    past: past.length > limit ? past.slice(past.length - limit) : past,
+    future: []
+  };
+}
+
+
+export function undoHistory(
+  history: HistoryState,
+  current: EditorSnapshot
+): { history: HistoryState; snapshot: EditorSnapshot } | null {
+  if (history.past.length === 0) return null;
+
+  const snapshot = history.past[history.past.length - 1];
+  return {
+    history: {
+      past: history.past.slice(0, -1),
+      future: [current, ...history.future]
+    },
+    snapshot
+  };
+}
+
+
+export function redoHistory(
+  history: HistoryState,
+  current: EditorSnapshot
+): { history: HistoryState; snapshot: EditorSnapshot } | null {
+  if (history.future.length === 0) return null;
+
+  const [snapshot, ...future] = history.future;
+  return {
+    history: {
+      past: [...history.past, current],
+      future
+    },
+    snapshot
+  };
+}
+
+
+export function trimHistory(history: HistoryState, limit: number): HistoryState {
+  if (history.past.length <= limit) return history;
+  return { ...history, past: history.past.slice(history.past.length - limit) };
+}
+
+
+export function snapshotsEqual(a: EditorSnapshot, b: EditorSnapshot): boolean {
+  if (a.gridSize.rows !== b.gridSize.rows || a.gridSize.cols !== b.gridSize.cols) return false;
+  if (!markersEqual(a.starts, b.starts) || !markersEqual(a.goals, b.goals)) return false;
+  // setWall hands back the same grid when nothing changes, so comparing references is enough
+  if ((a.walls ?? null) !== (b.walls ?? null)) return false;
+  if (a.grid === b.grid) return true;
+  if (a.grid.length !== b.grid.length) return false;
+
+  return a.grid.every((row, rowIndex) => {
+    const other = b.grid[rowIndex];
+    return row === other || (row.length === other.length && row.every((cell, colIndex) => cell === other[colIndex]));
+  });
+}
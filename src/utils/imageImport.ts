@@ -0,0 +1,186 @@
+import type { CellValue, GridSize } from '@/types';
+import { MAX_GRID_SIZE, MIN_GRID_SIZE } from '@/utils/gridUtils';
+
+export interface GrayImage {
+  width: number;
+  height: number;
+  // luminance 0 (black) to 255 (white), row-major
+  pixels: Float32Array;
+}
+
+// big photos are scaled down first; a 500-cell grid still gets two pixels per cell
+export const MAX_IMAGE_SIZE = 1000;
+
+
+export function toGrayImage(image: ImageData): GrayImage {
+  const pixels = new Float32Array(image.width * image.height);
+  for (let i = 0; i < pixels.length; i++) {
+    const r = image.data[i * 4];
+    const g = image.data[i * 4 + 1];
+    const b = image.data[i * 4 + 2];
+    const alpha = image.data[i * 4 + 3] / 255;
+    // transparent pixels count as white paper
+    pixels[i] = (0.299 * r + 0.587 * g + 0.114 * b) * alpha + 255 * (1 - alpha);
+  }
+  return { width: image.width, height: image.height, pixels };
+}
+
+
+export async function loadGrayImage(file: File): Promise<GrayImage> {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, MAX_IMAGE_SIZE / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas is not available');
+  }
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  return toGrayImage(ctx.getImageData(0, 0, canvas.width, canvas.height));
+}
+
+
+// the mean luminance of each cell's block of pixels
+export function getCellLuminance(image: GrayImage, size: GridSize): Float32Array {
+  const means = new Float32Array(size.rows * size.cols);
+
+  for (let row = 0; row < size.rows; row++) {
+    const top = Math.floor((row * image.height) / size.rows);
+    const bottom = Math.max(top + 1, Math.floor(((row + 1) * image.height) / size.rows));
+    for (let col = 0; col < size.cols; col++) {
+      const left = Math.floor((col * image.width) / size.cols);
+      const right = Math.max(left + 1, Math.floor(((col + 1) * image.width) / size.cols));
+
+      let sum = 0;
+      for (let y = top; y < bottom; y++) {
+        for (let x = left; x < right; x++) {
+          sum += image.pixels[y * image.width + x];
+        }
+      }
+      means[row * size.cols + col] = sum / ((bottom - top) * (right - left));
+    }
+  }
+
+  return means;
+}
+
+
+// Otsu's method: the cut that best separates the values into a dark and a light group
+export function otsuThreshold(values: Float32Array): number {
+  const histogram = new Array<number>(256).fill(0);
+  values.forEach(value => {
+    histogram[Math.min(255, Math.max(0, Math.round(value)))]++;
+  });
+
+  const total = values.length;
+  const sumAll = histogram.reduce((sum, count, level) => sum + count * level, 0);
+  let sumDark = 0;
+  let countDark = 0;
+  let best = 128;
+  let bestVariance = -1;
+
+  for (let level = 0; level < 256; level++) {
+    countDark += histogram[level];
+    if (countDark === 0) continue;
+    const countLight = total - countDark;
+    if (countLight === 0) break;
+
+    sumDark += level * histogram[level];
+    const meanDark = sumDark / countDark;
+    const meanLight = (sumAll - sumDark) / countLight;
+    const variance = countDark * countLight * (meanDark - meanLight) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      best = level + 1;
+    }
+  }
+
+  return best;
+}
+
+
+// cells darker than the threshold become walls, or lighter ones with `invert` for light-on-dark drawings
+export function thresholdCells(luminance: Float32Array, size: GridSize, threshold: number, invert: boolean): CellValue[][] {
+  return Array.from({ length: size.rows }, (_, row) =>
+    Array.from({ length: size.cols }, (_, col): CellValue => {
+      const isDark = luminance[row * size.cols + col] < threshold;
+      return isDark !== invert ? 0 : 1;
+    }));
+}
+
+
+// a grid line must carry this many times the average edge strength to count as found
+const MIN_LINE_CONTRAST = 1.5;
+
+
+// edge strength at a fractional position, read between the two nearest pixels
+function sampleEdge(edges: Float64Array, position: number): number {
+  const index = Math.floor(position);
+  const fraction = position - index;
+  return edges[index] * (1 - fraction) + (edges[index + 1] ?? 0) * fraction;
+}
+
+
+// mean edge strength on the inner lines of an n-cell split, leaving out every `skip`th line
+function lineStrength(edges: Float64Array, count: number, skip: number = 0): number {
+  let sum = 0;
+  let lines = 0;
+  for (let line = 1; line < count; line++) {
+    if (skip > 0 && line % skip === 0) continue;
+    sum += sampleEdge(edges, (line * edges.length) / count);
+    lines++;
+  }
+  return lines > 0 ? sum / lines : 0;
+}
+
+
+// the cell count whose lines fall on the strongest edges. a few widely spaced lines can
+// outscore the true grid by luck, so finer multiples are adopted while the lines they add are edges too
+function detectCellCount(edges: Float64Array): number | null {
+  const average = edges.reduce((sum, value) => sum + value, 0) / edges.length;
+  if (average === 0) return null;
+
+  const maxCount = Math.min(MAX_GRID_SIZE, Math.floor(edges.length / 2));
+  let best = MIN_GRID_SIZE;
+  let bestStrength = 0;
+  for (let count = MIN_GRID_SIZE; count <= maxCount; count++) {
+    const strength = lineStrength(edges, count);
+    if (strength > bestStrength) {
+      best = count;
+      bestStrength = strength;
+    }
+  }
+  if (bestStrength < MIN_LINE_CONTRAST * average) return null;
+
+  let count = best;
+  for (let factor = 2; count * factor <= maxCount; factor++) {
+    if (lineStrength(edges, count * factor, factor) >= bestStrength / 2) {
+      count *= factor;
+      factor = 1;
+    }
+  }
+  return count;
+}
+
+
+// guesses the grid from the spacing of the edges across and down the image
+export function detectGridSize(image: GrayImage): GridSize | null {
+  const columns = new Float64Array(image.width);
+  const rows = new Float64Array(image.height);
+
+  for (let y = 0; y < image.height; y++) {
+    for (let x = 0; x < image.width; x++) {
+      const pixel = image.pixels[y * image.width + x];
+      if (x > 0) columns[x] += Math.abs(pixel - image.pixels[y * image.width + x - 1]);
+      if (y > 0) rows[y] += Math.abs(pixel - image.pixels[(y - 1) * image.width + x]);
+    }
+  }
+
+  const cols = detectCellCount(columns);
+  const rowCount = detectCellCount(rows);
+  return cols === null || rowCount === null ? null : { rows: rowCount, cols };
+}
@@ -0,0 +1,265 @@
+import type { CellValue, GenerationInfo, Marker, MazeDocument, Position, PostProcessOptions, WallGrid } from '@/types';
+import { MAX_GRID_SIZE, MIN_GRID_SIZE, isValidGridSize, isValidPosition } from '@/utils/gridUtils';
+import { isValidSeed } from '@/utils/random';
+import { CELL_TYPES, isCellValue } from '@/utils/cellTypes';
+import { ALL_WALLS, MAX_EDGE_GRID_SIZE, canConvertLayout, hasWall } from '@/utils/edgeMaze';
+import { FORMAT_V1, FORMAT_V2 } from '@/utils/exportUtils';
+import { GOAL_PREFIX, START_PREFIX, nextMarkerLabel } from '@/utils/markerUtils';
+import { DEFAULT_POST_PROCESS } from '@/utils/postProcessing';
+import type { TextMapping } from '@/utils/textFormat';
+import { importFromMovingAI, importFromText, isMovingAIMap } from '@/utils/textFormat';
+const DEFAULT_MAPPING = '0=wall, 1=walkable';
+const INVERTED_MAPPING = '1=wall, 0=walkable';
+
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+
+function parsePosition(value: unknown, field: string, rows: number, cols: number): Position | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+
+  if (!isRecord(value) || !Number.isInteger(value.row) || !Number.isInteger(value.col)) {
+    throw new Error(`"${field}" must be null or an object with integer "row" and "col"`);
+  }
+
+  const pos = { row: value.row as number, col: value.col as number };
+  if (!isValidPosition(pos, { rows, cols })) {
+    throw new Error(`"${field}" (${pos.row}, ${pos.col}) is outside the ${rows}x${cols} grid`);
+  }
+
+  return pos;
+}
+
+
+function parseMarkers(
+  data: Record<string, unknown>,
+  field: 'starts' | 'goals',
+  legacyField: 'startPos' | 'goalPos',
+  prefix: string,
+  rows: number,
+  cols: number
+): Marker[] {
+  const value = data[field];
+
+  // files written before multi-marker support only have a single position
+  if (value === undefined) {
+    const pos = parsePosition(data[legacyField], legacyField, rows, cols);
+    return pos ? [{ ...pos, label: `${prefix}1` }] : [];
+  }
+
+  if (!Array.isArray(value)) {
+    throw new Error(`"${field}" must be an array of markers`);
+  }
+
+  const markers: Marker[] = [];
+  value.forEach((item, index) => {
+    const name = `${field}[${index}]`;
+    const pos = parsePosition(item, name, rows, cols);
+    if (!pos) {
+      throw new Error(`"${name}" must be a marker object`);
+    }
+
+    const { label, reward } = item as Record<string, unknown>;
+    if (label !== undefined && typeof label !== 'string') {
+      throw new Error(`"${name}.label" must be a string`);
+    }
+    if (reward !== undefined && reward !== null && (typeof reward !== 'number' || !Number.isFinite(reward))) {
+      throw new Error(`"${name}.reward" must be a number`);
+    }
+
+    const marker: Marker = { ...pos, label: label || nextMarkerLabel(markers, prefix) };
+    if (typeof reward === 'number') {
+      marker.reward = reward;
+    }
+    markers.push(marker);
+  });
+
+  return markers;
+}
+
+
+function parseGeneration(value: unknown): GenerationInfo | null {
+  if (value === undefined || value === null) {
+    return null;
+  }
+
+  if (!isRecord(value) || typeof value.algorithm !== 'string' ||
+      typeof value.seed !== 'number' || !isValidSeed(value.seed)) {
+    throw new Error('"metadata.generation" must have a string "algorithm" and an unsigned 32-bit "seed"');
+  }
+
+  const generation: GenerationInfo = { algorithm: value.algorithm, seed: value.seed };
+
+  if (value.params !== undefined) {
+    if (!isRecord(value.params) || Object.values(value.params).some((v) => typeof v !== 'number')) {
+      throw new Error('"metadata.generation.params" must map names to numbers');
+    }
+    generation.params = value.params as Record<string, number>;
+  }
+
+  // missing passes default to off so older files with partial settings still load
+  if (value.postProcess !== undefined) {
+    const postProcess = value.postProcess;
+    if (!isRecord(postProcess) || Object.keys(DEFAULT_POST_PROCESS).some((key) =>
+        postProcess[key] !== undefined &&
+        (typeof postProcess[key] !== 'number' || !Number.isInteger(postProcess[key]) || postProcess[key] < 0))) {
+      throw new Error('"metadata.generation.postProcess" must map pass names to non-negative integers');
+    }
+    generation.postProcess = { ...DEFAULT_POST_PROCESS };
+    for (const key of Object.keys(DEFAULT_POST_PROCESS) as (keyof PostProcessOptions)[]) {
+      if (postProcess[key] !== undefined) {
+        generation.postProcess[key] = postProcess[key] as number;
+      }
+    }
+  }
+
+  return generation;
+}
+
+
+function parseGrid(value: unknown, binary: boolean, inverted: boolean): CellValue[][] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new Error('"grid" must be a non-empty array of rows');
+  }
+
+  const cols = Array.isArray(value[0]) ? value[0].length : 0;
+
+  return value.map((row, rowIndex) => {
+    if (!Array.isArray(row)) {
+      throw new Error(`Row ${rowIndex} of "grid" is not an array`);
+    }
+    if (row.length !== cols) {
+      throw new Error(`Row ${rowIndex} of "grid" has ${row.length} cells, expected ${cols}`);
+    }
+
+    return row.map((cell, colIndex) => {
+      if (binary ? cell !== 0 && cell !== 1 : !isCellValue(cell)) {
+        const expected = binary ? '0 or 1' : `an integer from 0 to ${CELL_TYPES.length - 1}`;
+        throw new Error(`Cell (${rowIndex}, ${colIndex}) is ${JSON.stringify(cell)}, expected ${expected}`);
+      }
+      // the editor always stores 0=wall internally
+      return (inverted ? 1 - cell : cell) as CellValue;
+    });
+  });
+}
+
+
+// each wall must be set on both cells it separates, and the outer border must be closed
+function parseWalls(value: unknown, rows: number, cols: number): WallGrid {
+  if (!Array.isArray(value) || value.length !== rows) {
+    throw new Error(`"walls" must be an array of ${rows} rows, one per grid row`);
+  }
+
+  const walls = value.map((row, rowIndex) => {
+    if (!Array.isArray(row) || row.length !== cols) {
+      throw new Error(`Row ${rowIndex} of "walls" must have ${cols} entries`);
+    }
+    return row.map((flags, colIndex) => {
+      if (!Number.isInteger(flags) || flags < 0 || flags > ALL_WALLS) {
+        throw new Error(`Walls of cell (${rowIndex}, ${colIndex}) are ${JSON.stringify(flags)}, expected an integer from 0 to ${ALL_WALLS}`);
+      }
+      return flags as number;
+    });
+  });
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      if ((row === 0 && !hasWall(walls, row, col, 'up')) || (row === rows - 1 && !hasWall(walls, row, col, 'down')) ||
+          (col === 0 && !hasWall(walls, row, col, 'left')) || (col === cols - 1 && !hasWall(walls, row, col, 'right'))) {
+        throw new Error(`Cell (${row}, ${col}) is open to the outside; the border of a thin-wall maze must be closed`);
+      }
+      if (col + 1 < cols && hasWall(walls, row, col, 'right') !== hasWall(walls, row, col + 1, 'left')) {
+        throw new Error(`The wall between (${row}, ${col}) and (${row}, ${col + 1}) is only set on one side`);
+      }
+      if (row + 1 < rows && hasWall(walls, row, col, 'down') !== hasWall(walls, row + 1, col, 'up')) {
+        throw new Error(`The wall between (${row}, ${col}) and (${row + 1}, ${col}) is only set on one side`);
+      }
+    }
+  }
+
+  return walls;
+}
+
+
+export function importFromJSON(text: string): MazeDocument {
+  if (text.trim() === '') {
+    throw new Error('Nothing to import, the input is empty');
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Input is not valid JSON');
+  }
+
+  return importFromData(data);
+}
+
+
+// validates an already parsed export document; share links decode into the same shape
+export function importFromData(data: unknown): MazeDocument {
+  if (!isRecord(data)) {
+    throw new Error('Expected a JSON object at the top level');
+  }
+
+  if (!isRecord(data.metadata)) {
+    throw new Error('Missing "metadata" object; is this a maze-grid-editor export?');
+  }
+
+  const { format, valueMapping } = data.metadata;
+  if (format !== FORMAT_V1 && format !== FORMAT_V2) {
+    throw new Error(`Unsupported format ${JSON.stringify(format)}, expected "${FORMAT_V1}" or "${FORMAT_V2}"`);
+  }
+
+  if (format === FORMAT_V1 && valueMapping !== undefined && valueMapping !== DEFAULT_MAPPING && valueMapping !== INVERTED_MAPPING) {
+    throw new Error(`Unknown "metadata.valueMapping" ${JSON.stringify(valueMapping)}`);
+  }
+
+  const grid = parseGrid(data.grid, format === FORMAT_V1, format === FORMAT_V1 && valueMapping === INVERTED_MAPPING);
+  const rows = grid.length;
+  const cols = grid[0].length;
+
+  if (!isValidGridSize(rows, cols)) {
+    throw new Error(`Grid is ${rows}x${cols}; the editor supports ${MIN_GRID_SIZE} to ${MAX_GRID_SIZE} rows and columns`);
+  }
+
+  if (data.dimensions !== undefined) {
+    if (!isRecord(data.dimensions) || data.dimensions.rows !== rows || data.dimensions.cols !== cols) {
+      throw new Error(`"dimensions" does not match the ${rows}x${cols} grid`);
+    }
+  }
+
+  const { layout } = data.metadata;
+  if (layout !== undefined && layout !== 'blocks' && layout !== 'edges') {
+    throw new Error(`Unknown "metadata.layout" ${JSON.stringify(layout)}, expected "blocks" or "edges"`);
+  }
+  if (layout === 'edges' && !canConvertLayout({ rows, cols }, 'blocks')) {
+    throw new Error(`Thin-wall grid is ${rows}x${cols}; the editor supports up to ${MAX_EDGE_GRID_SIZE} rows and columns`);
+  }
+
+  return {
+    grid,
+    starts: parseMarkers(data, 'starts', 'startPos', START_PREFIX, rows, cols),
+    goals: parseMarkers(data, 'goals', 'goalPos', GOAL_PREFIX, rows, cols),
+    generation: parseGeneration(data.metadata.generation),
+    ...(layout === 'edges' && { walls: parseWalls(data.walls, rows, cols) }),
+  };
+}
+
+
+// JSON exports start with "{" and Moving AI maps with a "type" line; anything else is a text grid
+export function importMaze(text: string, textMapping: TextMapping): MazeDocument {
+  const trimmed = text.trimStart();
+  if (trimmed.startsWith('{')) {
+    return importFromJSON(text);
+  }
+  if (isMovingAIMap(trimmed)) {
+    return importFromMovingAI(text);
+  }
+  return importFromText(text, textMapping);
+}
@@ -0,0 +1,250 @@
+import type { CellValue, Marker, Position } from '@/types';
+import { getCellType } from '@/utils/cellTypes';
+import { getReachableCells } from '@/utils/pathfinding';
+import { createRandom } from '@/utils/random';
+import { GOAL_PREFIX, START_PREFIX } from '@/utils/markerUtils';
+
+export type MarkerPlacement = 'none' | 'diameter' | 'random' | 'corners' | 'keep';
+
+export interface MarkerPlacementOptions {
+  strategy: MarkerPlacement;
+  minPathLength: number;
+}
+
+export const DEFAULT_MARKER_PLACEMENT: MarkerPlacementOptions = {
+  strategy: 'diameter',
+  minPathLength: 20
+};
+
+export const MARKER_PLACEMENTS: { value: MarkerPlacement; label: string; description: string }[] = [
+  { value: 'none', label: 'None', description: 'Clear the markers and place them by hand' },
+  { value: 'diameter', label: 'Farthest pair', description: 'The two ends of the longest shortest path' },
+  { value: 'random', label: 'Random pair', description: 'Random connected cells at least the minimum path length apart, or as far apart as the maze allows' },
+  { value: 'corners', label: 'Corners', description: 'Open cells nearest the top-left and bottom-right corners' },
+  { value: 'keep', label: 'Keep previous', description: 'Keep the current markers if they are still on open, connected cells' },
+];
+
+// how many random starts are tried before settling for the farthest cell from the last one
+const RANDOM_ATTEMPTS = 20;
+
+const STEPS: Position[] = [
+  { row: -1, col: 0 },
+  { row: 1, col: 0 },
+  { row: 0, col: -1 },
+  { row: 0, col: 1 }
+];
+
+interface PlacedMarkers {
+  starts: Marker[];
+  goals: Marker[];
+}
+
+
+function isOpen(value: CellValue): boolean {
+  const cell = getCellType(value);
+  return cell.passable && !cell.endsEpisode;
+}
+
+
+// distances from `start` over open cells, -1 where it can't reach
+function getDistances(grid: CellValue[][], start: Position): Int32Array {
+  const rows = grid.length;
+  const cols = grid[0]?.length || 0;
+  const distance = new Int32Array(rows * cols).fill(-1);
+  const queue = new Int32Array(rows * cols);
+  let head = 0;
+  let tail = 0;
+
+  distance[start.row * cols + start.col] = 0;
+  queue[tail++] = start.row * cols + start.col;
+
+  while (head < tail) {
+    const index = queue[head++];
+    const row = Math.floor(index / cols);
+    const col = index % cols;
+
+    for (const step of STEPS) {
+      const nr = row + step.row;
+      const nc = col + step.col;
+      if (nr < 0 || nr >= rows || nc < 0 || nc >= cols) continue;
+      const next = nr * cols + nc;
+      if (distance[next] !== -1 || !isOpen(grid[nr][nc])) continue;
+      distance[next] = distance[index] + 1;
+      queue[tail++] = next;
+    }
+  }
+
+  return distance;
+}
+
+
+// markers only land where row and column are both multiples of `stride`
+function isOnStride(pos: Position, stride: number): boolean {
+  return pos.row % stride === 0 && pos.col % stride === 0;
+}
+
+
+function getFarthest(distance: Int32Array, cols: number, stride: number): Position {
+  let best = 0;
+  for (let index = 1; index < distance.length; index++) {
+    const pos = { row: Math.floor(index / cols), col: index % cols };
+    if (distance[index] > distance[best] && isOnStride(pos, stride)) best = index;
+  }
+  return { row: Math.floor(best / cols), col: best % cols };
+}
+
+
+// the open cells of the biggest connected region, so markers never land in a stray pocket;
+// every region is labelled in one pass over the grid
+function getLargestRegion(grid: CellValue[][]): Position[] {
+  const rows = grid.length;
+  const cols = grid[0]?.length || 0;
+  const labels = new Int32Array(rows * cols);
+  let label = 0;
+  let largest = 0;
+  let largestSize = 0;
+
+  for (let start = 0; start < rows * cols; start++) {
+    if (labels[start] || !isOpen(grid[Math.floor(start / cols)][start % cols])) continue;
+
+    label++;
+    let size = 0;
+    labels[start] = label;
+    const stack = [start];
+    while (stack.length > 0) {
+      const index = stack.pop()!;
+      const row = Math.floor(index / cols);
+      const col = index % cols;
+      size++;
+
+      for (const step of STEPS) {
+        const nr = row + step.row;
+        const nc = col + step.col;
+        if (nr < 0 || nr >= rows || nc < 0 || nc >= cols) continue;
+        const next = nr * cols + nc;
+        if (labels[next] || !isOpen(grid[nr][nc])) continue;
+        labels[next] = label;
+        stack.push(next);
+      }
+    }
+    if (size > largestSize) {
+      largest = label;
+      largestSize = size;
+    }
+  }
+
+  const region: Position[] = [];
+  for (let index = 0; index < labels.length; index++) {
+    if (largest !== 0 && labels[index] === largest) {
+      region.push({ row: Math.floor(index / cols), col: index % cols });
+    }
+  }
+  return region;
+}
+
+
+function createMarkers(start: Position, goal: Position): PlacedMarkers {
+  return {
+    starts: [{ row: start.row, col: start.col, label: `${START_PREFIX}1` }],
+    goals: [{ row: goal.row, col: goal.col, label: `${GOAL_PREFIX}1` }]
+  };
+}
+
+
+// two sweeps of BFS; exact on perfect mazes, a close lower bound once there are loops
+function placeDiameter(grid: CellValue[][], region: Position[], stride: number): PlacedMarkers {
+  const cols = grid[0].length;
+  const first = getFarthest(getDistances(grid, region[0]), cols, stride);
+  const second = getFarthest(getDistances(grid, first), cols, stride);
+  return createMarkers(first, second);
+}
+
+
+function placeRandom(
+  grid: CellValue[][],
+  region: Position[],
+  minPathLength: number,
+  seed: number,
+  stride: number
+): PlacedMarkers {
+  const random = createRandom(seed);
+  const cols = grid[0].length;
+  let start = region[0];
+  let distance = getDistances(grid, start);
+
+  for (let attempt = 0; attempt < RANDOM_ATTEMPTS; attempt++) {
+    start = region[Math.floor(random() * region.length)];
+    distance = getDistances(grid, start);
+
+    const candidates: number[] = [];
+    for (let index = 0; index < distance.length; index++) {
+      if (distance[index] >= Math.max(1, minPathLength) * stride &&
+          isOnStride({ row: Math.floor(index / cols), col: index % cols }, stride)) {
+        candidates.push(index);
+      }
+    }
+    if (candidates.length > 0) {
+      const goal = candidates[Math.floor(random() * candidates.length)];
+      return createMarkers(start, { row: Math.floor(goal / cols), col: goal % cols });
+    }
+  }
+
+  return createMarkers(start, getFarthest(distance, cols, stride));
+}
+
+
+function placeCorners(grid: CellValue[][], region: Position[]): PlacedMarkers {
+  const rows = grid.length;
+  const cols = grid[0].length;
+  const nearest = (cells: Position[], row: number, col: number) => cells.reduce((best, cell) =>
+    Math.abs(cell.row - row) + Math.abs(cell.col - col) < Math.abs(best.row - row) + Math.abs(best.col - col) ? cell : best);
+
+  return createMarkers(nearest(region, 0, 0), nearest(region, rows - 1, cols - 1));
+}
+
+
+// previous markers survive only if every one is still on an open cell
+// and every goal can still be reached from the first start
+function keepPrevious(grid: CellValue[][], starts: Marker[], goals: Marker[]): PlacedMarkers {
+  const rows = grid.length;
+  const cols = grid[0]?.length || 0;
+  const onOpenCell = (marker: Marker) =>
+    marker.row >= 0 && marker.row < rows && marker.col >= 0 && marker.col < cols && isOpen(grid[marker.row][marker.col]);
+
+  if (starts.length === 0 || !starts.every(onOpenCell) || !goals.every(onOpenCell)) {
+    return { starts: [], goals: [] };
+  }
+
+  const reached = new Set(getReachableCells(grid, starts[0]).map(pos => pos.row * cols + pos.col));
+  if (!goals.every(goal => reached.has(goal.row * cols + goal.col))) {
+    return { starts: [], goals: [] };
+  }
+
+  return { starts, goals };
+}
+
+
+// a thin-wall maze is placed on its block equivalent with a stride of 2, so markers land on
+// cells rather than the passages between them and path lengths still count cells
+export function placeMarkers(
+  grid: CellValue[][],
+  options: MarkerPlacementOptions,
+  seed: number,
+  previous: PlacedMarkers,
+  stride: number = 1
+): PlacedMarkers {
+  if (options.strategy === 'none') return { starts: [], goals: [] };
+  if (options.strategy === 'keep') return keepPrevious(grid, previous.starts, previous.goals);
+
+  const region = getLargestRegion(grid).filter(pos => isOnStride(pos, stride));
+  if (region.length < 2) return { starts: [], goals: [] };
+
+  switch (options.strategy) {
+    case 'diameter':
+      return placeDiameter(grid, region, stride);
+    case 'random':
+      return placeRandom(grid, region, options.minPathLength, seed, stride);
+    case 'corners':
+      return placeCorners(grid, region);
+  }
+}
@@ -0,0 +1,54 @@
+import type { Marker, Position } from '@/types';
+
+export const START_PREFIX = 'S';
+export const GOAL_PREFIX = 'G';
+
+
+export function findMarkerIndex(markers: Marker[], pos: Position): number {
+  return markers.findIndex(marker => marker.row === pos.row && marker.col === pos.col);
+}
+
+
+// first free label of the form S1, S2, ... so removed labels get reused
+export function nextMarkerLabel(markers: Marker[], prefix: string): string {
+  const used = new Set(markers.map(marker => marker.label));
+  let index = 1;
+  while (used.has(`${prefix}${index}`)) {
+    index++;
+  }
+  return `${prefix}${index}`;
+}
+
+
+// additive placement toggles a marker on the cell; otherwise the list collapses
+// to a single marker that keeps the first marker's label and reward
+export function placeMarker(markers: Marker[], pos: Position, prefix: string, additive: boolean): Marker[] {
+  if (additive) {
+    const index = findMarkerIndex(markers, pos);
+    if (index !== -1) {
+      return markers.filter((_, i) => i !== index);
+    }
+    return [...markers, { row: pos.row, col: pos.col, label: nextMarkerLabel(markers, prefix) }];
+  }
+
+  const first = markers[0];
+  if (markers.length === 1 && first.row === pos.row && first.col === pos.col) {
+    return markers;
+  }
+
+  return [{ ...(first ?? { label: `${prefix}1` }), row: pos.row, col: pos.col }];
+}
+
+
+export function updateMarker(markers: Marker[], index: number, changes: Partial<Marker>): Marker[] {
+  return markers.map((marker, i) => i === index ? { ...marker, ...changes } : marker);
+}
+
+
+export function markersEqual(a: Marker[], b: Marker[]): boolean {
+  return a === b || (a.length === b.length && a.every((marker, i) => {
+    const other = b[i];
+    return marker.row === other.row && marker.col === other.col &&
+      marker.label === other.label && marker.reward === other.reward;
+  }));
+}
@@ -0,0 +1,249 @@
+import type { CellValue, GridSize, WallGrid } from '@/types';
+import {
+  generateMazeDFS,
+  generateMazePrim,
+  generateMazeKruskal,
+  generateMazeBinaryTree,
+  generateMazeWilson,
+  generateMazeAldousBroder,
+  generateMazeEller,
+  generateMazeRecursiveDivision,
+  generateMazeSidewinder,
+  generateMazeHuntAndKill,
+  generateMazeGrowingTree
+} from '@/utils/mazeGenerators';
+import {
+  CONNECTIVITY_JOIN,
+  CONNECTIVITY_KEEP_LARGEST,
+  CONNECTIVITY_NONE,
+  generateBspDungeon,
+  generateCave,
+  generateDrunkardWalk
+} from '@/utils/caveGenerators';
+import {
+  generateEdgesDFS,
+  generateEdgesPrim,
+  generateEdgesKruskal,
+  generateEdgesBinaryTree,
+  generateEdgesWilson,
+  generateEdgesAldousBroder,
+  generateEdgesEller,
+  generateEdgesRecursiveDivision,
+  generateEdgesSidewinder,
+  generateEdgesHuntAndKill,
+  generateEdgesGrowingTree
+} from '@/utils/edgeGenerators';
+
+export type MazeAlgorithm =
+  | 'dfs'
+  | 'prim'
+  | 'kruskal'
+  | 'binary'
+  | 'wilson'
+  | 'aldous-broder'
+  | 'eller'
+  | 'division'
+  | 'sidewinder'
+  | 'hunt-and-kill'
+  | 'growing-tree'
+  | 'cave'
+  | 'drunkard'
+  | 'bsp';
+
+export interface AlgorithmParam {
+  id: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  defaultValue: number;
+  // a fixed set of choices, shown as a dropdown instead of a slider
+  options?: { value: number; label: string }[];
+}
+
+export interface MazeAlgorithmInfo {
+  value: MazeAlgorithm;
+  // perfect mazes have exactly one route between any two cells; caves are open maps
+  category: 'maze' | 'cave';
+  label: string;
+  description: string;
+  params: AlgorithmParam[];
+  generate: (size: GridSize, seed: number, params: Record<string, number>) => CellValue[][];
+  // the thin-wall version, for algorithms that have one
+  generateEdges?: (size: GridSize, seed: number, params: Record<string, number>) => WallGrid;
+}
+
+function connectivityParam(defaultValue: number): AlgorithmParam {
+  return {
+    id: 'connectivity',
+    label: 'Connectivity',
+    min: CONNECTIVITY_NONE,
+    max: CONNECTIVITY_JOIN,
+    step: 1,
+    defaultValue,
+    options: [
+      { value: CONNECTIVITY_NONE, label: 'Leave separate regions' },
+      { value: CONNECTIVITY_KEEP_LARGEST, label: 'Keep largest region' },
+      { value: CONNECTIVITY_JOIN, label: 'Join regions with tunnels' }
+    ]
+  };
+}
+
+
+// every generator the toolbar offers; the value is what gets recorded in exported metadata
+export const MAZE_ALGORITHMS: MazeAlgorithmInfo[] = [
+  {
+    value: 'dfs',
+    category: 'maze',
+    label: 'Recursive Backtracker',
+    description: 'Long, winding corridors with few branches',
+    params: [],
+    generate: (size, seed) => generateMazeDFS(size, seed),
+    generateEdges: (size, seed) => generateEdgesDFS(size, seed)
+  },
+  {
+    value: 'prim',
+    category: 'maze',
+    label: "Prim's",
+    description: 'Many short dead ends radiating from the start',
+    params: [],
+    generate: (size, seed) => generateMazePrim(size, seed),
+    generateEdges: (size, seed) => generateEdgesPrim(size, seed)
+  },
+  {
+    value: 'kruskal',
+    category: 'maze',
+    label: "Kruskal's",
+    description: 'Evenly spread branching',
+    params: [],
+    generate: (size, seed) => generateMazeKruskal(size, seed),
+    generateEdges: (size, seed) => generateEdgesKruskal(size, seed)
+  },
+  {
+    value: 'binary',
+    category: 'maze',
+    label: 'Binary Tree',
+    description: 'Fast; open corridors along the top and right edges',
+    params: [],
+    generate: (size, seed) => generateMazeBinaryTree(size, seed),
+    generateEdges: (size, seed) => generateEdgesBinaryTree(size, seed)
+  },
+  {
+    value: 'wilson',
+    category: 'maze',
+    label: "Wilson's",
+    description: 'Uniform spanning tree: every perfect maze is equally likely',
+    params: [],
+    generate: (size, seed) => generateMazeWilson(size, seed),
+    generateEdges: (size, seed) => generateEdgesWilson(size, seed)
+  },
+  {
+    value: 'aldous-broder',
+    category: 'maze',
+    label: 'Aldous-Broder',
+    description: 'Also uniform; slower than Wilson on large grids',
+    params: [],
+    generate: (size, seed) => generateMazeAldousBroder(size, seed),
+    generateEdges: (size, seed) => generateEdgesAldousBroder(size, seed)
+  },
+  {
+    value: 'eller',
+    category: 'maze',
+    label: "Eller's",
+    description: 'Built row by row; mostly horizontal texture',
+    params: [],
+    generate: (size, seed) => generateMazeEller(size, seed),
+    generateEdges: (size, seed) => generateEdgesEller(size, seed)
+  },
+  {
+    value: 'division',
+    category: 'maze',
+    label: 'Recursive Division',
+    description: 'Long straight walls and boxy chambers',
+    params: [],
+    generate: (size, seed) => generateMazeRecursiveDivision(size, seed),
+    generateEdges: (size, seed) => generateEdgesRecursiveDivision(size, seed)
+  },
+  {
+    value: 'sidewinder',
+    category: 'maze',
+    label: 'Sidewinder',
+    description: 'Open top row; paths tend to run upward',
+    params: [],
+    generate: (size, seed) => generateMazeSidewinder(size, seed),
+    generateEdges: (size, seed) => generateEdgesSidewinder(size, seed)
+  },
+  {
+    value: 'hunt-and-kill',
+    category: 'maze',
+    label: 'Hunt-and-Kill',
+    description: 'Long corridors like the backtracker, built without a stack',
+    params: [],
+    generate: (size, seed) => generateMazeHuntAndKill(size, seed),
+    generateEdges: (size, seed) => generateEdgesHuntAndKill(size, seed)
+  },
+  {
+    value: 'growing-tree',
+    category: 'maze',
+    label: 'Growing Tree',
+    description: 'Mixes backtracker (newest) and Prim (random) cell selection',
+    params: [
+      { id: 'newestBias', label: 'Newest cell share', min: 0, max: 1, step: 0.05, defaultValue: 0.5 }
+    ],
+    generate: (size, seed, params) => generateMazeGrowingTree(size, seed, params.newestBias),
+    generateEdges: (size, seed, params) => generateEdgesGrowingTree(size, seed, params.newestBias)
+  },
+  {
+    value: 'cave',
+    category: 'cave',
+    label: 'Cellular Automata Cave',
+    description: 'Smoothed noise; walls grow where neighbours are mostly wall',
+    params: [
+      { id: 'wallChance', label: 'Initial wall chance', min: 0.3, max: 0.7, step: 0.01, defaultValue: 0.45 },
+      { id: 'birth', label: 'Birth limit (walls around an open cell)', min: 1, max: 8, step: 1, defaultValue: 5 },
+      { id: 'survival', label: 'Survival limit (walls around a wall)', min: 1, max: 8, step: 1, defaultValue: 4 },
+      { id: 'iterations', label: 'Iterations', min: 0, max: 10, step: 1, defaultValue: 4 },
+      connectivityParam(CONNECTIVITY_KEEP_LARGEST)
+    ],
+    generate: (size, seed, params) =>
+      generateCave(size, seed, params.wallChance, params.birth, params.survival, params.iterations, params.connectivity)
+  },
+  {
+    value: 'drunkard',
+    category: 'cave',
+    label: "Drunkard's Walk",
+    description: 'Random walkers dig winding tunnels until enough of the map is open',
+    params: [
+      { id: 'coverage', label: 'Open area', min: 0.1, max: 0.8, step: 0.05, defaultValue: 0.4 },
+      { id: 'walkers', label: 'Walkers', min: 1, max: 10, step: 1, defaultValue: 1 },
+      connectivityParam(CONNECTIVITY_JOIN)
+    ],
+    generate: (size, seed, params) =>
+      generateDrunkardWalk(size, seed, params.coverage, params.walkers, params.connectivity)
+  },
+  {
+    value: 'bsp',
+    category: 'cave',
+    label: 'BSP Dungeon',
+    description: 'Rectangular rooms in a recursively split map, linked by corridors',
+    params: [
+      { id: 'minRoomSize', label: 'Minimum room size', min: 2, max: 20, step: 1, defaultValue: 4 },
+      connectivityParam(CONNECTIVITY_JOIN)
+    ],
+    generate: (size, seed, params) => generateBspDungeon(size, seed, params.minRoomSize, params.connectivity)
+  },
+];
+
+
+export function getMazeAlgorithm(value: MazeAlgorithm): MazeAlgorithmInfo {
+  return MAZE_ALGORITHMS.find(algorithm => algorithm.value === value)!;
+}
+
+
+// fills in defaults for parameters the caller didn't set
+export function resolveAlgorithmParams(
+  algorithm: MazeAlgorithmInfo,
+  params: Record<string, number> = {}
+): Record<string, number> {
+  return Object.fromEntries(algorithm.params.map(param => [param.id, params[param.id] ?? param.defaultValue]));
+}
@@ -0,0 +1,207 @@
+import type { CellValue, Direction, Marker, Position, WallGrid } from '@/types';
+import { getCellType } from '@/utils/cellTypes';
+import { edgesToBlocks, hasWall, toBlockMarkers, toEdgePositions } from '@/utils/edgeMaze';
+import { getReachableCells, solveMaze } from '@/utils/pathfinding';
+
+export interface MazeAnalysis {
+  openCells: number;
+  components: number;
+  // open cells the first start can't get to, or null without a start
+  unreachable: Position[] | null;
+  deadEnds: number;
+  junctions: number;
+  // independent cycles in the corridor graph (edges - cells + components)
+  loops: number;
+  isPerfect: boolean;
+  branchingFactor: number;
+  shortestPath: number | null;
+  tortuosity: number | null;
+  difficulty: number | null;
+}
+
+// how much each normalised metric contributes to the 0-100 difficulty score
+const DIFFICULTY_WEIGHTS = {
+  length: 0.35,
+  tortuosity: 0.25,
+  deadEnds: 0.2,
+  decisions: 0.2
+};
+
+const NEIGHBOURS: [number, number, Direction][] = [[-1, 0, 'up'], [1, 0, 'down'], [0, -1, 'left'], [0, 1, 'right']];
+
+
+// traps end the episode, so like walls they don't carry corridors
+function isOpen(value: CellValue): boolean {
+  const cell = getCellType(value);
+  return cell.passable && !cell.endsEpisode;
+}
+
+
+// on a thin-wall grid a wall on the border between two open cells cuts the corridor
+function isLinked(
+  grid: CellValue[][],
+  walls: WallGrid | null,
+  row: number,
+  col: number,
+  [dRow, dCol, direction]: [number, number, Direction]
+): boolean {
+  const next = grid[row + dRow]?.[col + dCol];
+  return next !== undefined && isOpen(next) && !(walls && hasWall(walls, row, col, direction));
+}
+
+
+function getDegree(grid: CellValue[][], walls: WallGrid | null, row: number, col: number): number {
+  return NEIGHBOURS.filter(neighbour => isLinked(grid, walls, row, col, neighbour)).length;
+}
+
+
+function countComponents(grid: CellValue[][], walls: WallGrid | null): number {
+  const rows = grid.length;
+  const cols = grid[0]?.length || 0;
+  const seen = new Uint8Array(rows * cols);
+  let components = 0;
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      if (seen[row * cols + col] || !isOpen(grid[row][col])) continue;
+
+      components++;
+      seen[row * cols + col] = 1;
+      const stack = [row * cols + col];
+      while (stack.length > 0) {
+        const index = stack.pop()!;
+        const r = Math.floor(index / cols);
+        const c = index % cols;
+
+        for (const neighbour of NEIGHBOURS) {
+          const nr = r + neighbour[0];
+          const nc = c + neighbour[1];
+          if (!isLinked(grid, walls, r, c, neighbour) || seen[nr * cols + nc]) continue;
+          seen[nr * cols + nc] = 1;
+          stack.push(nr * cols + nc);
+        }
+      }
+    }
+  }
+
+  return components;
+}
+
+
+// structure is measured on the undirected corridor graph; reachability and the
+// shortest path follow the solver's rules for one-way cells, doors and keys.
+// Thin-wall mazes are searched as their block equivalent and measured in cells,
+// where one step between cells is two block steps
+export function analyzeMaze(grid: CellValue[][], starts: Marker[], goals: Marker[], walls: WallGrid | null = null): MazeAnalysis {
+  const rows = grid.length;
+  const cols = grid[0]?.length || 0;
+  const blocks = walls ? edgesToBlocks(grid, walls) : grid;
+  const toBlocks = (markers: Marker[]) => (walls ? toBlockMarkers(markers) : markers);
+  const toCells = (positions: Position[]) => (walls ? toEdgePositions(positions) : positions);
+  const scale = walls ? 2 : 1;
+  let openCells = 0;
+  let edges = 0;
+  let deadEnds = 0;
+  let junctions = 0;
+  let corridorChoices = 0;
+  let corridorCells = 0;
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      if (!isOpen(grid[row][col])) continue;
+
+      const degree = getDegree(grid, walls, row, col);
+      openCells++;
+      edges += degree;
+      if (degree === 1) deadEnds++;
+      if (degree >= 3) junctions++;
+      if (degree >= 2) {
+        corridorChoices += degree - 1;
+        corridorCells++;
+      }
+    }
+  }
+  edges /= 2;
+
+  const components = countComponents(grid, walls);
+  const loops = edges - openCells + components;
+  const start = starts[0];
+
+  let unreachable: Position[] | null = null;
+  if (start) {
+    const reached = new Set(toCells(getReachableCells(blocks, toBlocks([start])[0])).map(pos => pos.row * cols + pos.col));
+    unreachable = [];
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
+        if (isOpen(grid[row][col]) && !reached.has(row * cols + col)) {
+          unreachable.push({ row, col });
+        }
+      }
+    }
+  }
+
+  let shortestPath: number | null = null;
+  let tortuosity: number | null = null;
+  let decisions = 0;
+  if (start && goals.length > 0) {
+    const result = solveMaze(blocks, toBlocks([start])[0], toBlocks(goals), 'bfs');
+    if (result.reachable) {
+      const path = toCells(result.path);
+      const end = path[path.length - 1];
+      const distance = Math.abs(end.row - start.row) + Math.abs(end.col - start.col);
+      shortestPath = (result.path.length - 1) / scale;
+      tortuosity = distance > 0 ? shortestPath / distance : null;
+      decisions = path.filter(pos => getDegree(grid, walls, pos.row, pos.col) >= 3).length;
+    }
+  }
+
+  // each part is scaled to 0-1 before weighting; an unsolvable maze has no score
+  let difficulty: number | null = null;
+  if (shortestPath !== null) {
+    const length = Math.min(1, shortestPath / (rows + cols));
+    const winding = tortuosity === null ? 0 : Math.min(1, (tortuosity - 1) / 4);
+    const deadEndDensity = Math.min(1, (deadEnds / Math.max(1, openCells)) * 10);
+    const decisionDensity = Math.min(1, (decisions / Math.max(1, shortestPath)) * 3);
+
+    difficulty = Math.round(100 * (
+      DIFFICULTY_WEIGHTS.length * length +
+      DIFFICULTY_WEIGHTS.tortuosity * winding +
+      DIFFICULTY_WEIGHTS.deadEnds * deadEndDensity +
+      DIFFICULTY_WEIGHTS.decisions * decisionDensity
+    ));
+  }
+
+  return {
+    openCells,
+    components,
+    unreachable,
+    deadEnds,
+    junctions,
+    loops,
+    isPerfect: openCells > 0 && components === 1 && loops === 0,
+    branchingFactor: corridorCells > 0 ? corridorChoices / corridorCells : 0,
+    shortestPath,
+    tortuosity,
+    difficulty
+  };
+}
+
+
+// the JSON export carries counts rather than the full list of unreachable cells
+export function toAnalysisMetadata(analysis: MazeAnalysis) {
+  const round = (value: number | null) => (value === null ? null : Math.round(value * 1000) / 1000);
+
+  return {
+    openCells: analysis.openCells,
+    components: analysis.components,
+    unreachableCells: analysis.unreachable?.length ?? null,
+    deadEnds: analysis.deadEnds,
+    junctions: analysis.junctions,
+    loops: analysis.loops,
+    isPerfect: analysis.isPerfect,
+    branchingFactor: round(analysis.branchingFactor),
+    shortestPath: analysis.shortestPath,
+    tortuosity: round(analysis.tortuosity),
+    difficulty: analysis.difficulty
+  };
+}
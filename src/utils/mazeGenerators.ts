@@ -1,317 +1,105 @@
-import type { CellValue, GridSize, Position } from '@/types';
-
-
-export function generateMazeDFS(size: GridSize): CellValue[][] {
-  const rows = size.rows % 2 === 0 ? size.rows - 1 : size.rows;
-  const cols = size.cols % 2 === 0 ? size.cols - 1 : size.cols;
-  
-  const grid: CellValue[][] = [];
-  for (let row = 0; row < rows; row++) {
-    const newRow: CellValue[] = [];
-    for (let col = 0; col < cols; col++) {
-      newRow.push(0);
-    }
-    grid.push(newRow);
-  }
-  
-  const getUnvisitedNeighbors = (row: number, col: number, visited: boolean[][]): Position[] => {
-    const neighbors: Position[] = [];
-    const directions = [
-      { row: -2, col: 0 },
-      { row: 2, col: 0 },
-      { row: 0, col: -2 },
-      { row: 0, col: 2 }
-    ];
-    
-    for (const dir of directions) {
-      const newRow = row + dir.row;
-      const newCol = col + dir.col;
-      
-      if (newRow >= 0 && newRow < rows && 
-          newCol >= 0 && newCol < cols && 
-          !visited[newRow][newCol]) {
-        neighbors.push({ row: newRow, col: newCol });
-      }
-    }
-    
-    return neighbors;
-  };
-  
-  const removeWallBetween = (from: Position, to: Position) => {
-    const wallRow = Math.floor((from.row + to.row) / 2);
-    const wallCol = Math.floor((from.col + to.col) / 2);
-    grid[wallRow][wallCol] = 1;
-  };
-  
-  const visited: boolean[][] = [];
-  for (let row = 0; row < rows; row++) {
-    const newRow: boolean[] = [];
-    for (let col = 0; col < cols; col++) {
-      newRow.push(false);
-    }
-    visited.push(newRow);
-  }
-  
-  const stack: Position[] = [];
-  const startRow = 0;
-  const startCol = 0;
-  
-  grid[startRow][startCol] = 1;
-  visited[startRow][startCol] = true;
-  stack.push({ row: startRow, col: startCol });
-  
-  while (stack.length > 0) {
-    const current = stack[stack.length - 1];
-    const neighbors = getUnvisitedNeighbors(current.row, current.col, visited);
-    
-    if (neighbors.length > 0) {
-      const randomIndex = Math.floor(Math.random() * neighbors.length);
-      const next = neighbors[randomIndex];
-      
-      grid[next.row][next.col] = 1;
-      visited[next.row][next.col] = true;
-      removeWallBetween(current, next);
-      stack.push(next);
-    } else {
-      stack.pop();
-    }
-  }
-  
-  return grid;
-}
-
-
-export function generateMazePrim(size: GridSize): CellValue[][] {
+import type { CellValue, GridSize } from '@/types';
+import type { CellGenerator } from '@/utils/cellGenerators';
+import {
+  carveAldousBroder,
+  carveBinaryTree,
+  carveDFS,
+  carveEller,
+  carveGrowingTree,
+  carveHuntAndKill,
+  carveKruskal,
+  carvePrim,
+  carveRecursiveDivision,
+  carveSidewinder,
+  carveWilson
+} from '@/utils/cellGenerators';
+import { createRandom } from '@/utils/random';
+
+// cells sit on even coordinates of an odd-sized grid, so an even size loses its last row or column,
+// and the passage between two cells is the position halfway between them
+function generateBlocks(size: GridSize, seed: number | undefined, generate: CellGenerator): CellValue[][] {
   const rows = size.rows % 2 === 0 ? size.rows - 1 : size.rows;
   const cols = size.cols % 2 === 0 ? size.cols - 1 : size.cols;
+  const grid: CellValue[][] = Array.from({ length: rows }, () => new Array<CellValue>(cols).fill(0));
 
-  const grid: CellValue[][] = [];
-  for (let row = 0; row < rows; row++) {
-    const newRow: CellValue[] = [];
-    for (let col = 0; col < cols; col++) {
-      newRow.push(0);
-    }
-    grid.push(newRow);
-  }
+  generate({ rows: (rows + 1) / 2, cols: (cols + 1) / 2 }, createRandom(seed), (from, to) => {
+    grid[from.row * 2][from.col * 2] = 1;
+    grid[from.row + to.row][from.col + to.col] = 1;
+    grid[to.row * 2][to.col * 2] = 1;
+  });
 
-  const visited: boolean[][] = [];
-  for (let row = 0; row < rows; row++) {
-    const newRow: boolean[] = [];
-    for (let col = 0; col < cols; col++) {
-      newRow.push(false);
-    }
-    visited.push(newRow);
-  }
-
-  const frontiers: Position[] = [];
-
-  const addFrontiers = (row: number, col: number) => {
-    const directions = [
-      { row: -2, col: 0 },
-      { row: 2, col: 0 },
-      { row: 0, col: -2 },
-      { row: 0, col: 2 }
-    ];
-
-    for (const dir of directions) {
-      const newRow = row + dir.row;
-      const newCol = col + dir.col;
-
-      if (newRow >= 0 && newRow < rows && 
-          newCol >= 0 && newCol < cols && 
-          !visited[newRow][newCol]) {
-        frontiers.push({ row: newRow, col: newCol });
-        visited[newRow][newCol] = true;
-      }
-    }
-  };
-
-  const getNeighborInMaze = (row: number, col: number): Position[] => {
-    const neighbors: Position[] = [];
-    const directions = [
-      { row: -2, col: 0 },
-      { row: 2, col: 0 },
-      { row: 0, col: -2 },
-      { row: 0, col: 2 }
-    ];
+  return grid;
+}
 
-    for (const dir of directions) {
-      const newRow = row + dir.row;
-      const newCol = col + dir.col;
 
-      if (newRow >= 0 && newRow < rows && 
-          newCol >= 0 && newCol < cols && 
-          grid[newRow][newCol] === 1) {
-        neighbors.push({ row: newRow, col: newCol });
-      }
-    }
+export function generateMazeDFS(size: GridSize, seed?: number): CellValue[][] {
+  return generateBlocks(size, seed, carveDFS);
+}
 
-    return neighbors;
-  };
 
-  const startRow = 0;
-  const startCol = 0;
-  grid[startRow][startCol] = 1;
-  visited[startRow][startCol] = true;
-  addFrontiers(startRow, startCol);
+export function generateMazePrim(size: GridSize, seed?: number): CellValue[][] {
+  return generateBlocks(size, seed, carvePrim);
+}
 
-  while (frontiers.length > 0) {
-    const randomIndex = Math.floor(Math.random() * frontiers.length);
-    const current = frontiers[randomIndex];
-    frontiers.splice(randomIndex, 1);
 
-    const neighbors = getNeighborInMaze(current.row, current.col);
+export function generateMazeKruskal(size: GridSize, seed?: number): CellValue[][] {
+  return generateBlocks(size, seed, carveKruskal);
+}
 
-    if (neighbors.length > 0) {
-      const neighbor = neighbors[Math.floor(Math.random() * neighbors.length)];
-      grid[current.row][current.col] = 1;
-      const wallRow = Math.floor((current.row + neighbor.row) / 2);
-      const wallCol = Math.floor((current.col + neighbor.col) / 2);
-      grid[wallRow][wallCol] = 1;
-      addFrontiers(current.row, current.col);
-    }
-  }
 
-  return grid;
+export function generateMazeBinaryTree(size: GridSize, seed?: number): CellValue[][] {
+  return generateBlocks(size, seed, carveBinaryTree);
 }
 
 
-export function generateMazeKruskal(size: GridSize): CellValue[][] {
-  const rows = size.rows % 2 === 0 ? size.rows - 1 : size.rows;
-  const cols = size.cols % 2 === 0 ? size.cols - 1 : size.cols;
-
+export function generateRandomMaze(size: GridSize, wallDensity: number = 0.3, seed?: number): CellValue[][] {
+  const random = createRandom(seed);
   const grid: CellValue[][] = [];
-  for (let row = 0; row < rows; row++) {
+
+  for (let row = 0; row < size.rows; row++) {
     const newRow: CellValue[] = [];
-    for (let col = 0; col < cols; col++) {
-      newRow.push(0);
+    for (let col = 0; col < size.cols; col++) {
+      const value = random();
+      const cellValue = value < wallDensity ? 0 : 1;
+      newRow.push(cellValue);
     }
     grid.push(newRow);
   }
 
-  const parent: Map<string, string> = new Map();
-  
-  const find = (cell: string): string => {
-    if (parent.get(cell) !== cell) {
-      parent.set(cell, find(parent.get(cell)!));
-    }
-    return parent.get(cell)!;
-  };
-
-  const union = (cell1: string, cell2: string) => {
-    const root1 = find(cell1);
-    const root2 = find(cell2);
-    if (root1 !== root2) {
-      parent.set(root2, root1);
-    }
-  };
-
-  const cells: Position[] = [];
-  for (let row = 0; row < rows; row += 2) {
-    for (let col = 0; col < cols; col += 2) {
-      const key = `${row},${col}`;
-      parent.set(key, key);
-      cells.push({ row, col });
-      grid[row][col] = 1;
-    }
-  }
-
-  interface Wall {
-    from: Position;
-    to: Position;
-  }
-  
-  const walls: Wall[] = [];
-  for (let row = 0; row < rows; row += 2) {
-    for (let col = 0; col < cols; col += 2) {
-      if (col + 2 < cols) {
-        walls.push({
-          from: { row, col },
-          to: { row, col: col + 2 }
-        });
-      }
-      if (row + 2 < rows) {
-        walls.push({
-          from: { row, col },
-          to: { row: row + 2, col }
-        });
-      }
-    }
-  }
-
-  for (let i = walls.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [walls[i], walls[j]] = [walls[j], walls[i]];
-  }
-
-  for (const wall of walls) {
-    const key1 = `${wall.from.row},${wall.from.col}`;
-    const key2 = `${wall.to.row},${wall.to.col}`;
-
-    if (find(key1) !== find(key2)) {
-      const wallRow = Math.floor((wall.from.row + wall.to.row) / 2);
-      const wallCol = Math.floor((wall.from.col + wall.to.col) / 2);
-      grid[wallRow][wallCol] = 1;
-      union(key1, key2);
-    }
-  }
-
   return grid;
 }
 
 
-export function generateMazeBinaryTree(size: GridSize): CellValue[][] {
-  const rows = size.rows % 2 === 0 ? size.rows - 1 : size.rows;
-  const cols = size.cols % 2 === 0 ? size.cols - 1 : size.cols;
+export function generateMazeWilson(size: GridSize, seed?: number): CellValue[][] {
+  return generateBlocks(size, seed, carveWilson);
+}
 
-  const grid: CellValue[][] = [];
-  for (let row = 0; row < rows; row++) {
-    const newRow: CellValue[] = [];
-    for (let col = 0; col < cols; col++) {
-      newRow.push(0);
-    }
-    grid.push(newRow);
-  }
 
-  for (let row = 0; row < rows; row += 2) {
-    for (let col = 0; col < cols; col += 2) {
-      grid[row][col] = 1;
+export function generateMazeAldousBroder(size: GridSize, seed?: number): CellValue[][] {
+  return generateBlocks(size, seed, carveAldousBroder);
+}
 
-      const neighbors: Position[] = [];
 
-      if (row > 0) {
-        neighbors.push({ row: row - 2, col });
-      }
+export function generateMazeEller(size: GridSize, seed?: number): CellValue[][] {
+  return generateBlocks(size, seed, carveEller);
+}
 
-      if (col + 2 < cols) {
-        neighbors.push({ row, col: col + 2 });
-      }
 
-      if (neighbors.length > 0) {
-        const neighbor = neighbors[Math.floor(Math.random() * neighbors.length)];
-        const wallRow = Math.floor((row + neighbor.row) / 2);
-        const wallCol = Math.floor((col + neighbor.col) / 2);
-        grid[wallRow][wallCol] = 1;
-      }
-    }
-  }
+export function generateMazeRecursiveDivision(size: GridSize, seed?: number): CellValue[][] {
+  return generateBlocks(size, seed, carveRecursiveDivision);
+}
 
-  return grid;
+
+export function generateMazeSidewinder(size: GridSize, seed?: number): CellValue[][] {
+  return generateBlocks(size, seed, carveSidewinder);
 }
 
 
-export function generateRandomMaze(size: GridSize, wallDensity: number = 0.3): CellValue[][] {
-  const grid: CellValue[][] = [];
+export function generateMazeHuntAndKill(size: GridSize, seed?: number): CellValue[][] {
+  return generateBlocks(size, seed, carveHuntAndKill);
+}
 
-  for (let row = 0; row < size.rows; row++) {
-    const newRow: CellValue[] = [];
-    for (let col = 0; col < size.cols; col++) {
-      const random = Math.random();
-      const cellValue = random < wallDensity ? 0 : 1;
-      newRow.push(cellValue);
-    }
-    grid.push(newRow);
-  }
 
-  return grid;
-}
\ No newline at end of file
+export function generateMazeGrowingTree(size: GridSize, seed?: number, newestBias: number = 0.5): CellValue[][] {
+  return generateBlocks(size, seed, (cells, random, carve) => carveGrowingTree(cells, random, carve, newestBias));
+}
@@ -0,0 +1,222 @@
+import type { ColorTheme, MazeDocument } from '@/types';
+import { exportToJSON } from '@/utils/exportUtils';
+import { importFromJSON } from '@/utils/importUtils';
+import { renderAllCells } from '@/utils/canvasRenderer';
+import { toBlockDocument } from '@/utils/edgeMaze';
+
+const DB_NAME = 'maze-grid-editor';
+const DB_VERSION = 1;
+const AUTOSAVE_STORE = 'autosave';
+const LIBRARY_STORE = 'library';
+const AUTOSAVE_KEY = 'current';
+
+// edits are written once the editor has been idle this long
+export const AUTOSAVE_DELAY_MS = 1000;
+
+// longest side of a library thumbnail in pixels
+const THUMBNAIL_SIZE = 96;
+
+// mazes are stored as their JSON export so saved entries go through the same validation
+// and format upgrades as imported files
+export interface LibraryEntry {
+  id: string;
+  name: string;
+  tags: string[];
+  rows: number;
+  cols: number;
+  // png data url
+  thumbnail: string;
+  createdAt: string;
+  updatedAt: string;
+  maze: string;
+}
+
+interface AutosaveRecord {
+  maze: string;
+  // the library entry the editor was working on, so Save keeps updating it after a reload
+  libraryId: string | null;
+  savedAt: string;
+}
+
+export interface Autosave {
+  doc: MazeDocument;
+  libraryId: string | null;
+}
+
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('This browser does not support IndexedDB'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(AUTOSAVE_STORE)) {
+          db.createObjectStore(AUTOSAVE_STORE);
+        }
+        if (!db.objectStoreNames.contains(LIBRARY_STORE)) {
+          db.createObjectStore(LIBRARY_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error('Could not open the maze database'));
+    });
+    // a failed open (private browsing, say) is retried on the next call
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+}
+
+
+async function getStore(name: string, mode: IDBTransactionMode): Promise<IDBObjectStore> {
+  const db = await openDatabase();
+  return db.transaction(name, mode).objectStore(name);
+}
+
+
+function serializeDocument(doc: MazeDocument): string {
+  return exportToJSON(doc.grid, doc.starts, doc.goals, false, doc.generation ?? null, null, doc.walls ?? null);
+}
+
+
+export async function saveAutosave(doc: MazeDocument, libraryId: string | null): Promise<void> {
+  const record: AutosaveRecord = { maze: serializeDocument(doc), libraryId, savedAt: new Date().toISOString() };
+  const store = await getStore(AUTOSAVE_STORE, 'readwrite');
+  await requestToPromise(store.put(record, AUTOSAVE_KEY));
+}
+
+
+// null when nothing was saved yet or the saved maze no longer parses
+export async function loadAutosave(): Promise<Autosave | null> {
+  const store = await getStore(AUTOSAVE_STORE, 'readonly');
+  const record = await requestToPromise(store.get(AUTOSAVE_KEY)) as AutosaveRecord | undefined;
+  if (!record) return null;
+
+  try {
+    return { doc: importFromJSON(record.maze), libraryId: record.libraryId };
+  } catch (err) {
+    console.error('Discarding unreadable autosave:', err);
+    return null;
+  }
+}
+
+
+// most recently changed first
+export async function listLibrary(): Promise<LibraryEntry[]> {
+  const store = await getStore(LIBRARY_STORE, 'readonly');
+  const entries = await requestToPromise(store.getAll()) as LibraryEntry[];
+  return entries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+
+export async function putLibraryEntry(entry: LibraryEntry): Promise<void> {
+  const store = await getStore(LIBRARY_STORE, 'readwrite');
+  await requestToPromise(store.put(entry));
+}
+
+
+export async function deleteLibraryEntry(id: string): Promise<void> {
+  const store = await getStore(LIBRARY_STORE, 'readwrite');
+  await requestToPromise(store.delete(id));
+}
+
+
+export function loadLibraryEntry(entry: LibraryEntry): MazeDocument {
+  return importFromJSON(entry.maze);
+}
+
+
+// the grid drawn with the editor's own cell renderer into a small png; thin walls are drawn as blocks.
+// Grids too big for a whole pixel per cell are drawn at one pixel per cell and scaled down
+export function createThumbnail(maze: MazeDocument, colors: ColorTheme): string {
+  const doc = toBlockDocument(maze);
+  const rows = doc.grid.length;
+  const cols = doc.grid[0]?.length || 0;
+  const cellSize = Math.max(1, Math.floor(THUMBNAIL_SIZE / Math.max(rows, cols)));
+  const canvas = document.createElement('canvas');
+  canvas.width = cols * cellSize;
+  canvas.height = rows * cellSize;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return '';
+  renderAllCells(ctx, doc.grid, cellSize, colors);
+
+  ctx.fillStyle = colors.goal;
+  doc.goals.forEach(goal => ctx.fillRect(goal.col * cellSize, goal.row * cellSize, cellSize, cellSize));
+  ctx.fillStyle = colors.start;
+  doc.starts.forEach(start => ctx.fillRect(start.col * cellSize, start.row * cellSize, cellSize, cellSize));
+
+  const scale = THUMBNAIL_SIZE / Math.max(canvas.width, canvas.height);
+  if (scale >= 1) return canvas.toDataURL('image/png');
+
+  const thumbnail = document.createElement('canvas');
+  thumbnail.width = Math.max(1, Math.round(canvas.width * scale));
+  thumbnail.height = Math.max(1, Math.round(canvas.height * scale));
+  const thumbnailCtx = thumbnail.getContext('2d');
+  if (!thumbnailCtx) return '';
+  thumbnailCtx.imageSmoothingQuality = 'high';
+  thumbnailCtx.drawImage(canvas, 0, 0, thumbnail.width, thumbnail.height);
+  return thumbnail.toDataURL('image/png');
+}
+
+
+export function createLibraryEntry(
+  doc: MazeDocument,
+  name: string,
+  tags: string[],
+  colors: ColorTheme,
+  id: string = crypto.randomUUID()
+): LibraryEntry {
+  const now = new Date().toISOString();
+  return {
+    id,
+    name,
+    tags,
+    rows: doc.grid.length,
+    cols: doc.grid[0]?.length || 0,
+    thumbnail: createThumbnail(doc, colors),
+    createdAt: now,
+    updatedAt: now,
+    maze: serializeDocument(doc)
+  };
+}
+
+
+// replaces the stored maze and thumbnail, keeping the name, tags and creation date
+export function updateLibraryEntry(entry: LibraryEntry, doc: MazeDocument, colors: ColorTheme): LibraryEntry {
+  return { ...createLibraryEntry(doc, entry.name, entry.tags, colors, entry.id), createdAt: entry.createdAt };
+}
+
+
+export function duplicateLibraryEntry(entry: LibraryEntry): LibraryEntry {
+  const now = new Date().toISOString();
+  return { ...entry, id: crypto.randomUUID(), name: `${entry.name} copy`, createdAt: now, updatedAt: now };
+}
+
+
+// comma or whitespace separated, lower-cased, without duplicates
+export function parseTags(text: string): string[] {
+  return [...new Set(text.toLowerCase().split(/[\s,]+/).filter(tag => tag !== ''))];
+}
+
+
+// every word of the query must start one of the entry's tags
+export function matchesTagSearch(entry: LibraryEntry, query: string): boolean {
+  return parseTags(query).every(word => entry.tags.some(tag => tag.startsWith(word)));
+}
@@ -0,0 +1,96 @@
+import type { CellValue, Marker } from '@/types';
+import { getCellType, isBinaryGrid } from '@/utils/cellTypes';
+import { createCompressedZip } from '@/utils/zipUtils';
+
+// NPY format 1.0: magic, version, little-endian header length, then a python dict literal
+// padded with spaces so the data starts on a 64-byte boundary
+const NPY_MAGIC = [0x93, 0x4e, 0x55, 0x4d, 0x50, 0x59];
+const NPY_ALIGNMENT = 64;
+
+// typed arrays use the platform byte order, which is little-endian in every browser we support
+export type NpyDtype = '|u1' | '|b1' | '<i4' | '<f4';
+
+type NpyData = Uint8Array | Int32Array | Float32Array;
+
+
+export function encodeNpy(data: NpyData, shape: number[], dtype: NpyDtype = '|u1'): Uint8Array<ArrayBuffer> {
+  const shapeText = shape.length === 1 ? `(${shape[0]},)` : `(${shape.join(', ')})`;
+  const dict = `{'descr': '${dtype}', 'fortran_order': False, 'shape': ${shapeText}, }`;
+  const prefixLength = NPY_MAGIC.length + 2 + 2;
+  const padding = (NPY_ALIGNMENT - ((prefixLength + dict.length + 1) % NPY_ALIGNMENT)) % NPY_ALIGNMENT;
+  const header = new TextEncoder().encode(`${dict}${' '.repeat(padding)}\n`);
+
+  const bytes = new Uint8Array(prefixLength + header.length + data.byteLength);
+  bytes.set(NPY_MAGIC, 0);
+  bytes[6] = 1;
+  bytes[7] = 0;
+  bytes[8] = header.length & 0xff;
+  bytes[9] = header.length >> 8;
+  bytes.set(header, prefixLength);
+  bytes.set(new Uint8Array(data.buffer, data.byteOffset, data.byteLength), prefixLength + header.length);
+  return bytes;
+}
+
+
+// row-major uint8 cell codes; inversion only applies to plain wall/walkable grids, as in the other exports
+export function gridToNpy(grid: CellValue[][], invertValues: boolean = false): Uint8Array<ArrayBuffer> {
+  const rows = grid.length;
+  const cols = grid[0]?.length || 0;
+  const invert = invertValues && isBinaryGrid(grid);
+  const data = new Uint8Array(rows * cols);
+
+  grid.forEach((cells, row) => cells.forEach((cell, col) => {
+    data[row * cols + col] = invert ? (cell === 0 ? 1 : 0) : cell;
+  }));
+
+  return encodeNpy(data, [rows, cols]);
+}
+
+
+function markersToNpy(markers: Marker[]): Uint8Array<ArrayBuffer> {
+  return encodeNpy(Int32Array.from(markers.flatMap(marker => [marker.row, marker.col])), [markers.length, 2], '<i4');
+}
+
+
+// per-cell layers derived from the cell types, for grids that use more than walls and paths
+function getCellLayers(grid: CellValue[][]): { name: string; data: Uint8Array<ArrayBuffer> }[] {
+  const rows = grid.length;
+  const cols = grid[0]?.length || 0;
+  const passable = new Uint8Array(rows * cols);
+  const cost = new Float32Array(rows * cols);
+  const terminal = new Uint8Array(rows * cols);
+
+  grid.forEach((cells, row) => cells.forEach((cell, col) => {
+    const type = getCellType(cell);
+    passable[row * cols + col] = type.passable ? 1 : 0;
+    cost[row * cols + col] = type.passable ? type.cost : Infinity;
+    terminal[row * cols + col] = type.endsEpisode ? 1 : 0;
+  }));
+
+  return [
+    { name: 'passable', data: encodeNpy(passable, [rows, cols], '|b1') },
+    { name: 'cost', data: encodeNpy(cost, [rows, cols], '<f4') },
+    { name: 'terminal', data: encodeNpy(terminal, [rows, cols], '|b1') },
+  ];
+}
+
+
+// the same layout np.savez_compressed writes: one deflated .npy per array, keyed by file name.
+// `start`/`goal` hold the first marker and are left out when there is none; `starts`/`goals` hold all of them
+export async function exportToNpz(
+  grid: CellValue[][],
+  starts: Marker[],
+  goals: Marker[],
+  invertValues: boolean = false
+): Promise<Uint8Array<ArrayBuffer>> {
+  const arrays = [
+    { name: 'maze', data: gridToNpy(grid, invertValues) },
+    ...(starts[0] ? [{ name: 'start', data: encodeNpy(Int32Array.of(starts[0].row, starts[0].col), [2], '<i4') }] : []),
+    ...(goals[0] ? [{ name: 'goal', data: encodeNpy(Int32Array.of(goals[0].row, goals[0].col), [2], '<i4') }] : []),
+    { name: 'starts', data: markersToNpy(starts) },
+    { name: 'goals', data: markersToNpy(goals) },
+    ...(isBinaryGrid(grid) ? [] : getCellLayers(grid)),
+  ];
+
+  return createCompressedZip(arrays.map(array => ({ name: `${array.name}.npy`, data: array.data })));
+}
@@ -0,0 +1,445 @@
+import type { CellValue, Position, SolverOverlay } from '@/types';
+import { canMove, getCellType, getPairBit } from '@/utils/cellTypes';
+
+export type SolverAlgorithm = 'bfs' | 'dijkstra' | 'astar' | 'greedy' | 'bidirectional';
+
+export type Heuristic = 'manhattan' | 'euclidean' | 'chebyshev';
+
+export interface SolverStep {
+  expanded: Position;
+  discovered: Position[];
+}
+
+export interface SolverResult {
+  steps: SolverStep[];
+  path: Position[];
+  pathCost: number;
+  nodesExpanded: number;
+  reachable: boolean;
+}
+
+// a search state is a cell plus the set of keys collected on the way there
+interface SearchNode {
+  pos: Position;
+  keys: number;
+}
+
+
+export const SOLVER_ALGORITHMS: { value: SolverAlgorithm; label: string }[] = [
+  { value: 'bfs', label: 'Breadth-First Search' },
+  { value: 'dijkstra', label: 'Dijkstra' },
+  { value: 'astar', label: 'A*' },
+  { value: 'greedy', label: 'Greedy Best-First' },
+  { value: 'bidirectional', label: 'Bidirectional BFS' },
+];
+
+
+const DIRECTIONS = [
+  { row: -1, col: 0 },
+  { row: 1, col: 0 },
+  { row: 0, col: -1 },
+  { row: 0, col: 1 }
+];
+
+
+const keyOf = (pos: Position) => `${pos.row},${pos.col}`;
+
+const nodeKeyOf = (node: SearchNode) => `${node.pos.row},${node.pos.col},${node.keys}`;
+
+const isGoal = (node: SearchNode, goalKeys: Set<string>) => goalKeys.has(keyOf(node.pos));
+
+
+function collectKey(grid: CellValue[][], pos: Position, keys: number): number {
+  const cell = getCellType(grid[pos.row][pos.col]);
+  return cell.kind === 'key' ? keys | getPairBit(cell) : keys;
+}
+
+
+function getSuccessors(grid: CellValue[][], node: SearchNode): SearchNode[] {
+  const successors: SearchNode[] = [];
+
+  for (const dir of DIRECTIONS) {
+    const pos = { row: node.pos.row + dir.row, col: node.pos.col + dir.col };
+
+    if (canMove(grid, node.pos, pos, node.keys)) {
+      successors.push({ pos, keys: collectKey(grid, pos, node.keys) });
+    }
+  }
+
+  return successors;
+}
+
+
+export function getPathCost(grid: CellValue[][], path: Position[]): number {
+  return path.slice(1).reduce((total, pos) => total + getCellType(grid[pos.row][pos.col]).cost, 0);
+}
+
+
+export function heuristicDistance(a: Position, b: Position, heuristic: Heuristic): number {
+  const dRow = Math.abs(a.row - b.row);
+  const dCol = Math.abs(a.col - b.col);
+
+  switch (heuristic) {
+    case 'manhattan':
+      return dRow + dCol;
+    case 'euclidean':
+      return Math.sqrt(dRow * dRow + dCol * dCol);
+    case 'chebyshev':
+      return Math.max(dRow, dCol);
+  }
+}
+
+
+function buildPath(cameFrom: Map<string, SearchNode>, end: SearchNode): Position[] {
+  const path: Position[] = [end.pos];
+  let current = cameFrom.get(nodeKeyOf(end));
+
+  while (current) {
+    path.push(current.pos);
+    current = cameFrom.get(nodeKeyOf(current));
+  }
+
+  return path.reverse();
+}
+
+
+function finish(grid: CellValue[][], steps: SolverStep[], path: Position[]): SolverResult {
+  return {
+    steps,
+    path,
+    pathCost: getPathCost(grid, path),
+    nodesExpanded: steps.length,
+    reachable: path.length > 0
+  };
+}
+
+
+// binary min-heap keyed by priority, ties broken by insertion order
+class PriorityQueue<T> {
+  private items: { value: T; priority: number; order: number }[] = [];
+  private counter = 0;
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(value: T, priority: number) {
+    this.items.push({ value, priority, order: this.counter++ });
+    let i = this.items.length - 1;
+
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.less(i, parent)) break;
+      [this.items[i], this.items[parent]] = [this.items[parent], this.items[i]];
+      i = parent;
+    }
+  }
+
+  pop(): T | undefined {
+    if (this.items.length === 0) return undefined;
+
+    const top = this.items[0];
+    const last = this.items.pop()!;
+
+    if (this.items.length > 0) {
+      this.items[0] = last;
+      let i = 0;
+
+      while (true) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+
+        if (left < this.items.length && this.less(left, smallest)) smallest = left;
+        if (right < this.items.length && this.less(right, smallest)) smallest = right;
+        if (smallest === i) break;
+
+        [this.items[i], this.items[smallest]] = [this.items[smallest], this.items[i]];
+        i = smallest;
+      }
+    }
+
+    return top.value;
+  }
+
+  private less(a: number, b: number): boolean {
+    const itemA = this.items[a];
+    const itemB = this.items[b];
+    return itemA.priority < itemB.priority ||
+      (itemA.priority === itemB.priority && itemA.order < itemB.order);
+  }
+}
+
+
+function solveBFS(grid: CellValue[][], start: Position, goalKeys: Set<string>): SolverResult {
+  const steps: SolverStep[] = [];
+  const startNode = { pos: start, keys: collectKey(grid, start, 0) };
+  const cameFrom = new Map<string, SearchNode>();
+  const visited = new Set<string>([nodeKeyOf(startNode)]);
+  const queue: SearchNode[] = [startNode];
+  let head = 0;
+
+  while (head < queue.length) {
+    const current = queue[head++];
+
+    if (isGoal(current, goalKeys)) {
+      steps.push({ expanded: current.pos, discovered: [] });
+      return finish(grid, steps, buildPath(cameFrom, current));
+    }
+
+    const discovered: Position[] = [];
+    for (const next of getSuccessors(grid, current)) {
+      const key = nodeKeyOf(next);
+      if (!visited.has(key)) {
+        visited.add(key);
+        cameFrom.set(key, current);
+        queue.push(next);
+        discovered.push(next.pos);
+      }
+    }
+
+    steps.push({ expanded: current.pos, discovered });
+  }
+
+  return finish(grid, steps, []);
+}
+
+
+// dijkstra, A* and greedy differ only in how a node is prioritised
+function solveBestFirst(
+  grid: CellValue[][],
+  start: Position,
+  goalKeys: Set<string>,
+  priorityOf: (cost: number, pos: Position) => number
+): SolverResult {
+  const steps: SolverStep[] = [];
+  const startNode = { pos: start, keys: collectKey(grid, start, 0) };
+  const cameFrom = new Map<string, SearchNode>();
+  const costs = new Map<string, number>([[nodeKeyOf(startNode), 0]]);
+  const closed = new Set<string>();
+  const open = new PriorityQueue<SearchNode>();
+  open.push(startNode, priorityOf(0, start));
+
+  while (open.size > 0) {
+    const current = open.pop()!;
+    const currentKey = nodeKeyOf(current);
+
+    if (closed.has(currentKey)) continue;
+    closed.add(currentKey);
+
+    if (isGoal(current, goalKeys)) {
+      steps.push({ expanded: current.pos, discovered: [] });
+      return finish(grid, steps, buildPath(cameFrom, current));
+    }
+
+    const currentCost = costs.get(currentKey)!;
+    const discovered: Position[] = [];
+
+    for (const next of getSuccessors(grid, current)) {
+      const key = nodeKeyOf(next);
+      const cost = currentCost + getCellType(grid[next.pos.row][next.pos.col]).cost;
+
+      if (!closed.has(key) && cost < (costs.get(key) ?? Infinity)) {
+        costs.set(key, cost);
+        cameFrom.set(key, current);
+        open.push(next, priorityOf(cost, next.pos));
+        discovered.push(next.pos);
+      }
+    }
+
+    steps.push({ expanded: current.pos, discovered });
+  }
+
+  return finish(grid, steps, []);
+}
+
+
+interface SearchSide {
+  layer: SearchNode[];
+  cameFrom: Map<string, SearchNode>;
+  depth: Map<string, number>;
+  // the backward search walks moves in reverse, which matters for one-way cells
+  canStep: (from: Position, to: Position) => boolean;
+}
+
+
+// grows whichever search has the smaller layer; finishing the layer in which the
+// two searches meet keeps the joined path shortest. Keys can't be tracked when
+// searching backwards, so doors are treated as locked here.
+function solveBidirectional(grid: CellValue[][], start: Position, goals: Position[]): SolverResult {
+  const steps: SolverStep[] = [];
+
+  if (goals.some(goal => keyOf(goal) === keyOf(start))) {
+    steps.push({ expanded: start, discovered: [] });
+    return finish(grid, steps, [start]);
+  }
+
+  const isOpenCell = (pos: Position) => {
+    if (pos.row < 0 || pos.row >= grid.length || pos.col < 0 || pos.col >= grid[0].length) return false;
+    const cell = getCellType(grid[pos.row][pos.col]);
+    return cell.passable && !cell.endsEpisode && cell.kind !== 'door';
+  };
+
+  const startNode = { pos: start, keys: 0 };
+  const goalNodes = goals.map(pos => ({ pos, keys: 0 }));
+  const forward: SearchSide = {
+    layer: [startNode],
+    cameFrom: new Map(),
+    depth: new Map([[nodeKeyOf(startNode), 0]]),
+    canStep: (from, to) => canMove(grid, from, to)
+  };
+  const backward: SearchSide = {
+    layer: goalNodes,
+    cameFrom: new Map(),
+    depth: new Map(goalNodes.map(node => [nodeKeyOf(node), 0])),
+    canStep: (from, to) => isOpenCell(to) && canMove(grid, to, from)
+  };
+
+  while (forward.layer.length > 0 && backward.layer.length > 0) {
+    const [side, other] = forward.layer.length <= backward.layer.length
+      ? [forward, backward]
+      : [backward, forward];
+
+    const nextLayer: SearchNode[] = [];
+    let meeting: SearchNode | null = null;
+    let bestLength = Infinity;
+
+    for (const current of side.layer) {
+      const currentDepth = side.depth.get(nodeKeyOf(current))!;
+      const discovered: Position[] = [];
+
+      for (const dir of DIRECTIONS) {
+        const next = { pos: { row: current.pos.row + dir.row, col: current.pos.col + dir.col }, keys: 0 };
+        const key = nodeKeyOf(next);
+        if (side.depth.has(key) || !side.canStep(current.pos, next.pos)) continue;
+
+        side.depth.set(key, currentDepth + 1);
+        side.cameFrom.set(key, current);
+        nextLayer.push(next);
+        discovered.push(next.pos);
+
+        const otherDepth = other.depth.get(key);
+        if (otherDepth !== undefined && currentDepth + 1 + otherDepth < bestLength) {
+          bestLength = currentDepth + 1 + otherDepth;
+          meeting = next;
+        }
+      }
+
+      steps.push({ expanded: current.pos, discovered });
+    }
+
+    if (meeting) {
+      const head = buildPath(forward.cameFrom, meeting);
+      const tail = buildPath(backward.cameFrom, meeting).reverse();
+      return finish(grid, steps, [...head, ...tail.slice(1)]);
+    }
+
+    side.layer = nextLayer;
+  }
+
+  return finish(grid, steps, []);
+}
+
+
+// searches from `start` to whichever of `goals` is reached first
+export function solveMaze(
+  grid: CellValue[][],
+  start: Position,
+  goals: Position[],
+  algorithm: SolverAlgorithm,
+  heuristic: Heuristic = 'manhattan'
+): SolverResult {
+  const isOpen = (pos: Position) => getCellType(grid[pos.row][pos.col]).passable;
+  const openGoals = goals.filter(isOpen);
+
+  if (!isOpen(start) || openGoals.length === 0) {
+    return finish(grid, [], []);
+  }
+
+  const goalKeys = new Set(openGoals.map(keyOf));
+  const estimate = (pos: Position) =>
+    Math.min(...openGoals.map(goal => heuristicDistance(pos, goal, heuristic)));
+
+  switch (algorithm) {
+    case 'bfs':
+      return solveBFS(grid, start, goalKeys);
+    case 'dijkstra':
+      return solveBestFirst(grid, start, goalKeys, (cost) => cost);
+    case 'astar':
+      return solveBestFirst(grid, start, goalKeys, (cost, pos) => cost + estimate(pos));
+    case 'greedy':
+      return solveBestFirst(grid, start, goalKeys, (_cost, pos) => estimate(pos));
+    case 'bidirectional':
+      return solveBidirectional(grid, start, openGoals);
+  }
+}
+
+
+// every cell the agent can get to from `start`, picking up keys and opening doors on the way
+export function getReachableCells(grid: CellValue[][], start: Position): Position[] {
+  if (!getCellType(grid[start.row][start.col]).passable) return [];
+
+  const startNode = { pos: start, keys: collectKey(grid, start, 0) };
+  const visited = new Set<string>([nodeKeyOf(startNode)]);
+  const reached = new Map<string, Position>([[keyOf(start), start]]);
+  const queue: SearchNode[] = [startNode];
+  let head = 0;
+
+  while (head < queue.length) {
+    const current = queue[head++];
+
+    for (const next of getSuccessors(grid, current)) {
+      const key = nodeKeyOf(next);
+      if (!visited.has(key)) {
+        visited.add(key);
+        reached.set(keyOf(next.pos), next.pos);
+        queue.push(next);
+      }
+    }
+  }
+
+  return [...reached.values()];
+}
+
+
+// explored and frontier cells after the first `applied` steps of a run; the solver panel keeps one
+// between animation ticks so each tick only replays the steps added since the last
+export interface OverlayReplay {
+  result: SolverResult;
+  applied: number;
+  explored: Map<string, Position>;
+  frontier: Map<string, Position>;
+}
+
+
+export function createOverlayReplay(result: SolverResult): OverlayReplay {
+  return { result, applied: 0, explored: new Map(), frontier: new Map() };
+}
+
+
+// advances `replay` to `stepCount` and returns what the canvas should show at that point;
+// steps only ever get added, so going backwards needs a fresh replay
+export function getOverlayAtStep(replay: OverlayReplay, stepCount: number): SolverOverlay {
+  const { result, explored, frontier } = replay;
+  const target = Math.min(stepCount, result.steps.length);
+
+  for (; replay.applied < target; replay.applied++) {
+    const step = result.steps[replay.applied];
+    const key = keyOf(step.expanded);
+    frontier.delete(key);
+    explored.set(key, step.expanded);
+
+    for (const pos of step.discovered) {
+      const discoveredKey = keyOf(pos);
+      if (!explored.has(discoveredKey)) {
+        frontier.set(discoveredKey, pos);
+      }
+    }
+  }
+
+  return {
+    explored: [...explored.values()],
+    frontier: [...frontier.values()],
+    path: stepCount >= result.steps.length ? result.path : [],
+  };
+}
@@ -0,0 +1,185 @@
+import type { CellValue, PostProcessOptions, Position } from '@/types';
+import type { RandomFn } from '@/utils/random';
+import { createRandom } from '@/utils/random';
+
+export const DEFAULT_POST_PROCESS: PostProcessOptions = {
+  sparsify: 0,
+  braid: 0,
+  loops: 0,
+  rooms: 0,
+  roomMinSize: 3,
+  roomMaxSize: 7
+};
+
+const NEIGHBOURS: Position[] = [
+  { row: -1, col: 0 },
+  { row: 1, col: 0 },
+  { row: 0, col: -1 },
+  { row: 0, col: 1 }
+];
+
+
+const isOpenAt = (grid: CellValue[][], row: number, col: number) =>
+  row >= 0 && row < grid.length && col >= 0 && col < grid[0].length && grid[row][col] !== 0;
+
+
+function countOpenNeighbours(grid: CellValue[][], row: number, col: number): number {
+  return NEIGHBOURS.filter(dir => isOpenAt(grid, row + dir.row, col + dir.col)).length;
+}
+
+
+function findDeadEnds(grid: CellValue[][]): Position[] {
+  const deadEnds: Position[] = [];
+  grid.forEach((cells, row) => cells.forEach((cell, col) => {
+    if (cell !== 0 && countOpenNeighbours(grid, row, col) === 1) {
+      deadEnds.push({ row, col });
+    }
+  }));
+  return deadEnds;
+}
+
+
+function shuffle<T>(items: T[], random: RandomFn): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
+
+
+export function hasPostProcessing(options: PostProcessOptions): boolean {
+  return options.sparsify > 0 || options.braid > 0 || options.loops > 0 || options.rooms > 0;
+}
+
+
+// walls in every dead end, `steps` times over, so each dead-end branch gets that much shorter
+export function sparsifyMaze(grid: CellValue[][], steps: number): CellValue[][] {
+  const result = grid.map(row => [...row]);
+
+  for (let step = 0; step < steps; step++) {
+    const deadEnds = findDeadEnds(result);
+    if (deadEnds.length === 0) break;
+    deadEnds.forEach(({ row, col }) => {
+      result[row][col] = 0;
+    });
+  }
+
+  return result;
+}
+
+
+// removes `percent` of the dead ends by opening a wall into another corridor;
+// walls two steps from another open cell are preferred so corridors stay one cell wide
+export function braidMaze(grid: CellValue[][], percent: number, random: RandomFn): CellValue[][] {
+  const result = grid.map(row => [...row]);
+  const deadEnds = shuffle(findDeadEnds(result), random);
+  const count = Math.round((deadEnds.length * Math.min(100, percent)) / 100);
+
+  for (const { row, col } of deadEnds.slice(0, count)) {
+    if (countOpenNeighbours(result, row, col) !== 1) continue;
+
+    const walls = NEIGHBOURS
+      .map(dir => ({ dir, wall: { row: row + dir.row, col: col + dir.col } }))
+      .filter(({ wall }) =>
+        wall.row >= 0 && wall.row < result.length && wall.col >= 0 && wall.col < result[0].length &&
+        result[wall.row][wall.col] === 0);
+
+    const through = walls.filter(({ dir }) => isOpenAt(result, row + dir.row * 2, col + dir.col * 2));
+    const joining = walls.filter(({ wall }) => countOpenNeighbours(result, wall.row, wall.col) > 1);
+    const options = through.length > 0 ? through : joining;
+    if (options.length === 0) continue;
+
+    const { wall } = options[Math.floor(random() * options.length)];
+    result[wall.row][wall.col] = 1;
+  }
+
+  return result;
+}
+
+
+// knocks out `count` walls that sit between two open cells in a straight line
+export function addLoops(grid: CellValue[][], count: number, random: RandomFn): CellValue[][] {
+  const result = grid.map(row => [...row]);
+  const candidates: Position[] = [];
+
+  result.forEach((cells, row) => cells.forEach((cell, col) => {
+    if (cell !== 0) return;
+
+    const horizontal = isOpenAt(result, row, col - 1) && isOpenAt(result, row, col + 1) &&
+      !isOpenAt(result, row - 1, col) && !isOpenAt(result, row + 1, col);
+    const vertical = isOpenAt(result, row - 1, col) && isOpenAt(result, row + 1, col) &&
+      !isOpenAt(result, row, col - 1) && !isOpenAt(result, row, col + 1);
+    if (horizontal || vertical) {
+      candidates.push({ row, col });
+    }
+  }));
+
+  for (const { row, col } of shuffle(candidates, random).slice(0, count)) {
+    result[row][col] = 1;
+  }
+
+  return result;
+}
+
+
+// opens `count` rectangular rooms; corners land on even coordinates and sides are odd
+// so the rooms line up with the corridors of the perfect-maze generators
+export function carveRooms(
+  grid: CellValue[][],
+  count: number,
+  minSize: number,
+  maxSize: number,
+  random: RandomFn
+): CellValue[][] {
+  const result = grid.map(row => [...row]);
+  const rows = result.length;
+  const cols = result[0]?.length || 0;
+  const low = Math.max(1, Math.min(minSize, maxSize));
+  const high = Math.max(low, maxSize);
+
+  const pickSide = (limit: number) => {
+    const size = low + Math.floor(random() * (high - low + 1));
+    const odd = size % 2 === 0 ? size + 1 : size;
+    return Math.min(odd, limit % 2 === 0 ? limit - 1 : limit);
+  };
+
+  for (let i = 0; i < count; i++) {
+    const height = pickSide(rows);
+    const width = pickSide(cols);
+    const top = Math.floor((random() * (rows - height + 1)) / 2) * 2;
+    const left = Math.floor((random() * (cols - width + 1)) / 2) * 2;
+
+    for (let row = top; row < top + height; row++) {
+      for (let col = left; col < left + width; col++) {
+        result[row][col] = 1;
+      }
+    }
+  }
+
+  return result;
+}
+
+
+// runs the enabled passes in a fixed order so the same seed always gives the same grid
+export function applyPostProcessing(grid: CellValue[][], options: PostProcessOptions, seed: number): CellValue[][] {
+  if (!hasPostProcessing(options)) return grid;
+
+  const random = createRandom(seed);
+  let result = grid;
+
+  if (options.sparsify > 0) {
+    result = sparsifyMaze(result, options.sparsify);
+  }
+  if (options.braid > 0) {
+    result = braidMaze(result, options.braid, random);
+  }
+  if (options.loops > 0) {
+    result = addLoops(result, options.loops, random);
+  }
+  if (options.rooms > 0) {
+    result = carveRooms(result, options.rooms, options.roomMinSize, options.roomMaxSize, random);
+  }
+
+  return result;
+}
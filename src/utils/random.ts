@@ -0,0 +1,32 @@
+export type RandomFn = () => number;
+
+export const MAX_SEED = 0xffffffff;
+
+
+// mulberry32: tiny, fast and good enough for maze layouts
+function mulberry32(seed: number): RandomFn {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+
+export function createRandom(seed?: number): RandomFn {
+  return seed === undefined ? Math.random : mulberry32(seed);
+}
+
+
+export function randomSeed(): number {
+  return Math.floor(Math.random() * (MAX_SEED + 1));
+}
+
+
+export function isValidSeed(seed: number): boolean {
+  return Number.isInteger(seed) && seed >= 0 && seed <= MAX_SEED;
+}
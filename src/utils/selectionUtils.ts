@@ -0,0 +1,66 @@
+import type { CellValue, Position, SelectionRect } from '@/types';
+
+export function normalizeSelection(anchor: Position, corner: Position): SelectionRect {
+  return {
+    top: Math.min(anchor.row, corner.row),
+    left: Math.min(anchor.col, corner.col),
+    bottom: Math.max(anchor.row, corner.row),
+    right: Math.max(anchor.col, corner.col)
+  };
+}
+
+
+export function getSelectionSize(selection: SelectionRect) {
+  return { rows: selection.bottom - selection.top + 1, cols: selection.right - selection.left + 1 };
+}
+
+
+export function selectionFitsGrid(selection: SelectionRect, rows: number, cols: number): boolean {
+  return selection.bottom < rows && selection.right < cols;
+}
+
+
+export function copyRegion(grid: CellValue[][], selection: SelectionRect): CellValue[][] {
+  return grid
+    .slice(selection.top, selection.bottom + 1)
+    .map(row => row.slice(selection.left, selection.right + 1));
+}
+
+
+// rows outside the selection are shared with the original grid
+export function fillRegion(grid: CellValue[][], selection: SelectionRect, value: CellValue): CellValue[][] {
+  return grid.map((row, r) => {
+    if (r < selection.top || r > selection.bottom) return row;
+
+    const newRow = [...row];
+    newRow.fill(value, selection.left, selection.right + 1);
+    return newRow;
+  });
+}
+
+
+// the part of `cells` that would hang over the edge of the grid is dropped
+export function getPasteSelection(cells: CellValue[][], at: Position, rows: number, cols: number): SelectionRect | null {
+  const bottom = Math.min(at.row + cells.length, rows) - 1;
+  const right = Math.min(at.col + (cells[0]?.length || 0), cols) - 1;
+  if (bottom < at.row || right < at.col) return null;
+
+  return { top: at.row, left: at.col, bottom, right };
+}
+
+
+export function pasteRegion(grid: CellValue[][], cells: CellValue[][], at: Position): CellValue[][] {
+  const target = getPasteSelection(cells, at, grid.length, grid[0]?.length || 0);
+  if (!target) return grid;
+
+  return grid.map((row, r) => {
+    if (r < target.top || r > target.bottom) return row;
+
+    const newRow = [...row];
+    const source = cells[r - at.row];
+    for (let c = target.left; c <= target.right; c++) {
+      newRow[c] = source[c - at.col];
+    }
+    return newRow;
+  });
+}
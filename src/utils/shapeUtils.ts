@@ -0,0 +1,131 @@
+import type { CellValue, DrawTool, Position } from '@/types';
+
+// every cell on the line from `from` to `to`, both ends included
+export function bresenhamLine(from: Position, to: Position): Position[] {
+  const cells: Position[] = [];
+  const dRow = Math.abs(to.row - from.row);
+  const dCol = Math.abs(to.col - from.col);
+  const stepRow = from.row < to.row ? 1 : -1;
+  const stepCol = from.col < to.col ? 1 : -1;
+  let error = dCol - dRow;
+  let { row, col } = from;
+
+  for (;;) {
+    cells.push({ row, col });
+    if (row === to.row && col === to.col) break;
+
+    const doubled = 2 * error;
+    if (doubled > -dRow) {
+      error -= dRow;
+      col += stepCol;
+    }
+    if (doubled < dCol) {
+      error += dCol;
+      row += stepRow;
+    }
+  }
+
+  return cells;
+}
+
+
+export function rectangleCells(from: Position, to: Position, filled: boolean): Position[] {
+  const top = Math.min(from.row, to.row);
+  const bottom = Math.max(from.row, to.row);
+  const left = Math.min(from.col, to.col);
+  const right = Math.max(from.col, to.col);
+  const cells: Position[] = [];
+
+  for (let row = top; row <= bottom; row++) {
+    for (let col = left; col <= right; col++) {
+      if (filled || row === top || row === bottom || col === left || col === right) {
+        cells.push({ row, col });
+      }
+    }
+  }
+
+  return cells;
+}
+
+
+// ellipse inscribed in the box spanned by the two corners; the outline is the set of
+// filled cells with an orthogonal neighbour outside, so it stays closed
+export function ellipseCells(from: Position, to: Position, filled: boolean): Position[] {
+  const top = Math.min(from.row, to.row);
+  const bottom = Math.max(from.row, to.row);
+  const left = Math.min(from.col, to.col);
+  const right = Math.max(from.col, to.col);
+  const centerRow = (top + bottom) / 2;
+  const centerCol = (left + right) / 2;
+  const radiusRow = (bottom - top + 1) / 2;
+  const radiusCol = (right - left + 1) / 2;
+
+  const inside = (row: number, col: number) => {
+    if (row < top || row > bottom || col < left || col > right) return false;
+    const dy = (row - centerRow) / radiusRow;
+    const dx = (col - centerCol) / radiusCol;
+    return dx * dx + dy * dy <= 1;
+  };
+
+  const cells: Position[] = [];
+  for (let row = top; row <= bottom; row++) {
+    for (let col = left; col <= right; col++) {
+      if (!inside(row, col)) continue;
+
+      const isEdge = !inside(row - 1, col) || !inside(row + 1, col) || !inside(row, col - 1) || !inside(row, col + 1);
+      if (filled || isEdge) {
+        cells.push({ row, col });
+      }
+    }
+  }
+
+  return cells;
+}
+
+
+// the orthogonally connected region of cells sharing the start cell's value
+export function floodFillCells(grid: CellValue[][], start: Position): Position[] {
+  const rows = grid.length;
+  const cols = grid[0]?.length || 0;
+  const target = grid[start.row][start.col];
+  const visited = new Uint8Array(rows * cols);
+  const stack: Position[] = [start];
+  const cells: Position[] = [];
+  visited[start.row * cols + start.col] = 1;
+
+  while (stack.length > 0) {
+    const cell = stack.pop()!;
+    cells.push(cell);
+
+    for (const [dRow, dCol] of [[-1, 0], [1, 0], [0, -1], [0, 1]]) {
+      const row = cell.row + dRow;
+      const col = cell.col + dCol;
+      if (row < 0 || row >= rows || col < 0 || col >= cols) continue;
+      if (visited[row * cols + col] || grid[row][col] !== target) continue;
+
+      visited[row * cols + col] = 1;
+      stack.push({ row, col });
+    }
+  }
+
+  return cells;
+}
+
+
+// cells covered by a drag-out shape tool
+export function getShapeCells(tool: DrawTool, from: Position, to: Position): Position[] {
+  switch (tool) {
+    case 'line':
+      return bresenhamLine(from, to);
+    case 'rectangle':
+      return rectangleCells(from, to, false);
+    case 'rectangle-filled':
+      return rectangleCells(from, to, true);
+    case 'ellipse':
+      return ellipseCells(from, to, false);
+    case 'ellipse-filled':
+      return ellipseCells(from, to, true);
+    default:
+      return [to];
+  }
+}
@@ -0,0 +1,219 @@
+import type { MazeDocument, WallGrid } from '@/types';
+import { isBinaryGrid } from '@/utils/cellTypes';
+import { WALL_FLAGS } from '@/utils/edgeMaze';
+import { FORMAT_V2 } from '@/utils/exportUtils';
+import { importFromData } from '@/utils/importUtils';
+import { deflateRaw, inflateRaw } from '@/utils/zipUtils';
+
+export const SHARE_HASH_PREFIX = '#maze=';
+
+// links longer than this get cut off by some chat apps and browsers
+export const MAX_SHARE_LINK_LENGTH = 8000;
+
+// byte 0 is the version, byte 1 the flags; the payload that follows is deflated when FLAG_DEFLATE is set.
+// payload: rows and cols as little-endian u16, bits per cell (1 for wall/walkable grids, 4 otherwise),
+// the cells packed row-major from the low bit up, the east and south walls of a thin-wall maze packed the
+// same way at 2 bits per cell when FLAG_WALLS is set, then the markers and generation info as UTF-8 JSON
+const SHARE_VERSION = 1;
+const FLAG_DEFLATE = 1;
+const FLAG_WALLS = 2;
+const WALL_BITS = 2;
+const EAST_BIT = 1;
+const SOUTH_BIT = 2;
+const HEADER_SIZE = 2;
+const PAYLOAD_HEADER_SIZE = 5;
+
+// String.fromCharCode takes its arguments on the stack, so long links are converted in slices
+const BASE64_CHUNK = 0x8000;
+
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += BASE64_CHUNK) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + BASE64_CHUNK));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+
+function fromBase64Url(text: string): Uint8Array<ArrayBuffer> {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  let binary: string;
+  try {
+    binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  } catch {
+    throw new Error('The link is damaged; it contains characters a share link never has');
+  }
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+
+function getPackedSize(rows: number, cols: number, bits: number): number {
+  return Math.ceil((rows * cols * bits) / 8);
+}
+
+
+// 1, 2 and 4 all divide 8, so a value never straddles two bytes
+function packValues(payload: Uint8Array, offset: number, values: number[][], bits: number) {
+  const cols = values[0]?.length || 0;
+  values.forEach((cells, row) => cells.forEach((value, col) => {
+    const bit = (row * cols + col) * bits;
+    payload[offset + (bit >> 3)] |= value << (bit & 7);
+  }));
+}
+
+
+function unpackValues(payload: Uint8Array, offset: number, rows: number, cols: number, bits: number): number[][] {
+  const mask = (1 << bits) - 1;
+  return Array.from({ length: rows }, (_, row) =>
+    Array.from({ length: cols }, (_, col) => {
+      const bit = (row * cols + col) * bits;
+      return (payload[offset + (bit >> 3)] >> (bit & 7)) & mask;
+    }));
+}
+
+
+// the west and north walls are the east and south walls of the neighbours, or the border
+function packWalls(walls: WallGrid): number[][] {
+  return walls.map(cells => cells.map(flags =>
+    (flags & WALL_FLAGS.right ? EAST_BIT : 0) | (flags & WALL_FLAGS.down ? SOUTH_BIT : 0)));
+}
+
+
+function unpackWalls(packed: number[][]): WallGrid {
+  return packed.map((cells, row) => cells.map((bits, col) =>
+    (bits & EAST_BIT ? WALL_FLAGS.right : 0) |
+    (bits & SOUTH_BIT ? WALL_FLAGS.down : 0) |
+    (row === 0 || packed[row - 1][col] & SOUTH_BIT ? WALL_FLAGS.up : 0) |
+    (col === 0 || cells[col - 1] & EAST_BIT ? WALL_FLAGS.left : 0)));
+}
+
+
+function packPayload(doc: MazeDocument): Uint8Array<ArrayBuffer> {
+  const rows = doc.grid.length;
+  const cols = doc.grid[0]?.length || 0;
+  const bits = isBinaryGrid(doc.grid) ? 1 : 4;
+  const extras = new TextEncoder().encode(JSON.stringify({
+    ...(doc.starts.length > 0 && { starts: doc.starts }),
+    ...(doc.goals.length > 0 && { goals: doc.goals }),
+    ...(doc.generation && { generation: doc.generation })
+  }));
+  const cellBytes = getPackedSize(rows, cols, bits);
+  const wallBytes = doc.walls ? getPackedSize(rows, cols, WALL_BITS) : 0;
+
+  const payload = new Uint8Array(PAYLOAD_HEADER_SIZE + cellBytes + wallBytes + extras.length);
+  const view = new DataView(payload.buffer);
+  view.setUint16(0, rows, true);
+  view.setUint16(2, cols, true);
+  payload[4] = bits;
+
+  packValues(payload, PAYLOAD_HEADER_SIZE, doc.grid, bits);
+  if (doc.walls) {
+    packValues(payload, PAYLOAD_HEADER_SIZE + cellBytes, packWalls(doc.walls), WALL_BITS);
+  }
+  payload.set(extras, PAYLOAD_HEADER_SIZE + cellBytes + wallBytes);
+  return payload;
+}
+
+
+function unpackPayload(payload: Uint8Array<ArrayBuffer>, hasWalls: boolean): MazeDocument {
+  if (payload.length < PAYLOAD_HEADER_SIZE) {
+    throw new Error('The link is incomplete; was it cut off when it was copied?');
+  }
+
+  const view = new DataView(payload.buffer, payload.byteOffset, payload.byteLength);
+  const rows = view.getUint16(0, true);
+  const cols = view.getUint16(2, true);
+  const bits = payload[4];
+  if (bits !== 1 && bits !== 4) {
+    throw new Error(`The link stores ${bits} bits per cell, expected 1 or 4`);
+  }
+
+  const cellBytes = getPackedSize(rows, cols, bits);
+  const wallBytes = hasWalls ? getPackedSize(rows, cols, WALL_BITS) : 0;
+  if (payload.length < PAYLOAD_HEADER_SIZE + cellBytes + wallBytes) {
+    throw new Error('The link is incomplete; was it cut off when it was copied?');
+  }
+
+  const grid = unpackValues(payload, PAYLOAD_HEADER_SIZE, rows, cols, bits);
+  const walls = hasWalls ? unpackWalls(unpackValues(payload, PAYLOAD_HEADER_SIZE + cellBytes, rows, cols, WALL_BITS)) : undefined;
+
+  let extras: Partial<Record<'starts' | 'goals' | 'generation', unknown>>;
+  try {
+    extras = JSON.parse(new TextDecoder().decode(payload.subarray(PAYLOAD_HEADER_SIZE + cellBytes + wallBytes)));
+  } catch {
+    throw new Error('The markers stored in the link are damaged');
+  }
+  if (typeof extras !== 'object' || extras === null) {
+    throw new Error('The markers stored in the link are damaged');
+  }
+
+  // checked by the JSON importer, so a hand-edited link can't load anything an import couldn't
+  return importFromData({
+    grid,
+    starts: extras.starts,
+    goals: extras.goals,
+    walls,
+    metadata: { format: FORMAT_V2, generation: extras.generation, layout: hasWalls ? 'edges' : 'blocks' }
+  });
+}
+
+
+// the part after SHARE_HASH_PREFIX; deflated when the browser can, which it almost always can
+export async function encodeShareCode(doc: MazeDocument): Promise<string> {
+  const payload = packPayload(doc);
+  const compressed = typeof CompressionStream !== 'undefined' ? await deflateRaw(payload) : null;
+  const useDeflate = compressed !== null && compressed.length < payload.length;
+  const body = useDeflate ? compressed : payload;
+
+  const bytes = new Uint8Array(HEADER_SIZE + body.length);
+  bytes[0] = SHARE_VERSION;
+  bytes[1] = (useDeflate ? FLAG_DEFLATE : 0) | (doc.walls ? FLAG_WALLS : 0);
+  bytes.set(body, HEADER_SIZE);
+  return toBase64Url(bytes);
+}
+
+
+export async function decodeShareCode(code: string): Promise<MazeDocument> {
+  const bytes = fromBase64Url(code);
+  if (bytes.length < HEADER_SIZE) {
+    throw new Error('The link is incomplete; was it cut off when it was copied?');
+  }
+  if (bytes[0] !== SHARE_VERSION) {
+    throw new Error(`The link was made by a different version of the editor (format ${bytes[0]})`);
+  }
+
+  const body = bytes.slice(HEADER_SIZE);
+  const hasWalls = (bytes[1] & FLAG_WALLS) !== 0;
+  if (!(bytes[1] & FLAG_DEFLATE)) {
+    return unpackPayload(body, hasWalls);
+  }
+  if (typeof DecompressionStream === 'undefined') {
+    throw new Error('This browser cannot decompress share links');
+  }
+
+  let payload: Uint8Array<ArrayBuffer>;
+  try {
+    payload = await inflateRaw(body);
+  } catch {
+    throw new Error('The link is damaged and could not be decompressed');
+  }
+  return unpackPayload(payload, hasWalls);
+}
+
+
+export function isShareHash(hash: string): boolean {
+  return hash.startsWith(SHARE_HASH_PREFIX);
+}
+
+
+export function decodeShareHash(hash: string): Promise<MazeDocument> {
+  return decodeShareCode(hash.slice(SHARE_HASH_PREFIX.length));
+}
+
+
+// the current page with the maze in its hash
+export async function createShareLink(doc: MazeDocument): Promise<string> {
+  const { origin, pathname, search } = window.location;
+  return `${origin}${pathname}${search}${SHARE_HASH_PREFIX}${await encodeShareCode(doc)}`;
+}
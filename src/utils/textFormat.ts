@@ -0,0 +1,209 @@
+import type { CellValue, Marker, MazeDocument } from '@/types';
+import { CELL_TYPES, getCellType } from '@/utils/cellTypes';
+import { MAX_GRID_SIZE, MIN_GRID_SIZE, isValidGridSize } from '@/utils/gridUtils';
+import { GOAL_PREFIX, START_PREFIX } from '@/utils/markerUtils';
+
+export interface TextMapping {
+  // one character per cell type, keyed by the cell type id
+  cells: Record<string, string>;
+  start: string;
+  goal: string;
+}
+
+export const DEFAULT_TEXT_MAPPING: TextMapping = {
+  cells: {
+    wall: '#',
+    walkable: '.',
+    trap: 'x',
+    terrain: '~',
+    oneway_up: '^',
+    oneway_right: '>',
+    oneway_down: 'v',
+    oneway_left: '<',
+    door_a: 'A',
+    door_b: 'B',
+    door_c: 'C',
+    key_a: 'a',
+    key_b: 'b',
+    key_c: 'c',
+  },
+  start: 'S',
+  goal: 'G'
+};
+
+// Moving AI benchmark terrain: ground is open, swamp is passable but slow, everything else blocks.
+// markers live in separate .scen files, so none are read or written here
+const MOVING_AI_CELLS: Record<string, CellValue> = {
+  '.': 1,
+  G: 1,
+  S: 3,
+  '@': 0,
+  O: 0,
+  T: 0,
+  W: 0
+};
+
+
+// a mapping is usable when every entry is a single printable, distinct character
+export function validateTextMapping(mapping: TextMapping): string | null {
+  const entries: [string, string][] = [
+    ...CELL_TYPES.map((cell): [string, string] => [cell.label, mapping.cells[cell.id] ?? '']),
+    ['Start', mapping.start],
+    ['Goal', mapping.goal],
+  ];
+  const seen = new Map<string, string>();
+
+  for (const [label, char] of entries) {
+    if ([...char].length !== 1 || /\s/.test(char)) {
+      return `${label} needs exactly one visible character`;
+    }
+    if (seen.has(char)) {
+      return `${seen.get(char)} and ${label} both use "${char}"`;
+    }
+    seen.set(char, label);
+  }
+
+  return null;
+}
+
+
+function splitLines(text: string): string[] {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  while (lines.length > 0 && lines[lines.length - 1].trim() === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+
+function checkGridSize(rows: number, cols: number) {
+  if (!isValidGridSize(rows, cols)) {
+    throw new Error(`Grid is ${rows}x${cols}; the editor supports ${MIN_GRID_SIZE} to ${MAX_GRID_SIZE} rows and columns`);
+  }
+}
+
+
+// markers are drawn over their cell; a marker on anything but a plain path hides that cell
+export function exportToText(
+  grid: CellValue[][],
+  starts: Marker[],
+  goals: Marker[],
+  mapping: TextMapping = DEFAULT_TEXT_MAPPING
+): string {
+  const lines = grid.map(row => row.map(cell => mapping.cells[getCellType(cell).id]));
+  goals.forEach(goal => {
+    lines[goal.row][goal.col] = mapping.goal;
+  });
+  starts.forEach(start => {
+    lines[start.row][start.col] = mapping.start;
+  });
+  return lines.map(line => line.join('')).join('\n') + '\n';
+}
+
+
+export function importFromText(text: string, mapping: TextMapping = DEFAULT_TEXT_MAPPING): MazeDocument {
+  const mappingError = validateTextMapping(mapping);
+  if (mappingError) {
+    throw new Error(`Invalid character mapping: ${mappingError}`);
+  }
+
+  const lines = splitLines(text);
+  if (lines.length === 0) {
+    throw new Error('Nothing to import, the input is empty');
+  }
+
+  const cellByChar = new Map(CELL_TYPES.map(cell => [mapping.cells[cell.id], cell.value]));
+  const rows = lines.length;
+  const cols = [...lines[0]].length;
+  checkGridSize(rows, cols);
+
+  const starts: Marker[] = [];
+  const goals: Marker[] = [];
+  const grid = lines.map((line, row) => {
+    const chars = [...line];
+    if (chars.length !== cols) {
+      throw new Error(`Line ${row + 1} has ${chars.length} characters, expected ${cols} like the first line`);
+    }
+
+    return chars.map((char, col): CellValue => {
+      if (char === mapping.start) {
+        starts.push({ row, col, label: `${START_PREFIX}${starts.length + 1}` });
+        return 1;
+      }
+      if (char === mapping.goal) {
+        goals.push({ row, col, label: `${GOAL_PREFIX}${goals.length + 1}` });
+        return 1;
+      }
+      const value = cellByChar.get(char);
+      if (value === undefined) {
+        throw new Error(`Unknown character "${char}" at line ${row + 1}, column ${col + 1}`);
+      }
+      return value;
+    });
+  });
+
+  return { grid, starts, goals, generation: null };
+}
+
+
+export function isMovingAIMap(text: string): boolean {
+  return /^type\s+\S+/.test(text.trimStart());
+}
+
+
+// Moving AI .map: "type octile", "height N", "width N", "map", then the rows
+export function exportToMovingAI(grid: CellValue[][]): string {
+  const rows = grid.map(row => row.map(cell => {
+    const type = getCellType(cell);
+    if (!type.passable) return '@';
+    return type.kind === 'terrain' ? 'S' : '.';
+  }).join(''));
+
+  return `type octile\nheight ${grid.length}\nwidth ${grid[0]?.length || 0}\nmap\n${rows.join('\n')}\n`;
+}
+
+
+export function importFromMovingAI(text: string): MazeDocument {
+  const lines = splitLines(text);
+  const header = new Map<string, string>();
+  let index = 0;
+
+  for (; index < lines.length; index++) {
+    const line = lines[index].trim();
+    if (line === 'map') break;
+    const [key, value] = line.split(/\s+/, 2);
+    if (key) header.set(key.toLowerCase(), value ?? '');
+  }
+
+  if (index === lines.length) {
+    throw new Error('Missing the "map" line that starts the grid in a Moving AI .map file');
+  }
+
+  const height = Number(header.get('height'));
+  const width = Number(header.get('width'));
+  if (!Number.isInteger(height) || !Number.isInteger(width) || height <= 0 || width <= 0) {
+    throw new Error('A Moving AI .map header needs integer "height" and "width" lines');
+  }
+  checkGridSize(height, width);
+
+  const rowsText = lines.slice(index + 1);
+  if (rowsText.length !== height) {
+    throw new Error(`Header says height ${height} but the map has ${rowsText.length} rows`);
+  }
+
+  const grid = rowsText.map((line, row) => {
+    const chars = [...line.trimEnd()];
+    if (chars.length !== width) {
+      throw new Error(`Map row ${row + 1} has ${chars.length} characters, expected width ${width}`);
+    }
+    return chars.map((char, col) => {
+      const value = MOVING_AI_CELLS[char];
+      if (value === undefined) {
+        throw new Error(`Unknown Moving AI terrain "${char}" at row ${row + 1}, column ${col + 1}`);
+      }
+      return value;
+    });
+  });
+
+  return { grid, starts: [], goals: [], generation: null };
+}
@@ -0,0 +1,208 @@
+import type { ColorTheme, MarkerShape, Theme } from '@/types';
+
+const STORAGE_KEY = 'maze-grid-editor-theme';
+
+// the preset name themes fall back to once a colour is edited by hand
+export const CUSTOM_PRESET = 'custom';
+
+export const MARKER_SHAPES: { value: MarkerShape; label: string }[] = [
+  { value: 'circle', label: 'Circle' },
+  { value: 'square', label: 'Square' },
+  { value: 'diamond', label: 'Diamond' },
+  { value: 'triangle', label: 'Triangle' },
+];
+
+export const COLOR_LABELS: { key: keyof ColorTheme; label: string }[] = [
+  { key: 'wall', label: 'Wall' },
+  { key: 'walkable', label: 'Walkable' },
+  { key: 'grid', label: 'Grid lines' },
+  { key: 'start', label: 'Start' },
+  { key: 'goal', label: 'Goal' },
+  { key: 'trap', label: 'Trap' },
+  { key: 'terrain', label: 'Rough terrain' },
+  { key: 'oneWay', label: 'One-way' },
+  { key: 'door', label: 'Door' },
+  { key: 'key', label: 'Key' },
+  { key: 'explored', label: 'Explored' },
+  { key: 'frontier', label: 'Frontier' },
+  { key: 'path', label: 'Path' },
+  { key: 'unreachable', label: 'Unreachable' },
+];
+
+export const THEME_PRESETS: { id: string; label: string; theme: Omit<Theme, 'preset'> }[] = [
+  {
+    id: 'light',
+    label: 'Light',
+    theme: {
+      colors: {
+        wall: '#000000',
+        walkable: '#ffffff',
+        start: '#ef4444',
+        goal: '#22c55e',
+        grid: '#e5e7eb',
+        trap: '#f97316',
+        terrain: '#d6b98c',
+        oneWay: '#bfdbfe',
+        door: '#7c3aed',
+        key: '#eab308',
+        explored: '#93c5fd',
+        frontier: '#fcd34d',
+        path: '#8b5cf6',
+        unreachable: '#f43f5e'
+      },
+      startShape: 'circle',
+      goalShape: 'square',
+      showGridLines: true
+    }
+  },
+  {
+    id: 'dark',
+    label: 'Dark',
+    theme: {
+      colors: {
+        wall: '#0f172a',
+        walkable: '#475569',
+        start: '#f87171',
+        goal: '#4ade80',
+        grid: '#334155',
+        trap: '#fb923c',
+        terrain: '#a16207',
+        oneWay: '#1e40af',
+        door: '#a78bfa',
+        key: '#facc15',
+        explored: '#1d4ed8',
+        frontier: '#b45309',
+        path: '#e879f9',
+        unreachable: '#be123c'
+      },
+      startShape: 'circle',
+      goalShape: 'square',
+      showGridLines: true
+    }
+  },
+  {
+    id: 'high-contrast',
+    label: 'High contrast',
+    theme: {
+      colors: {
+        wall: '#000000',
+        walkable: '#ffffff',
+        start: '#0000ff',
+        goal: '#ff00ff',
+        grid: '#808080',
+        trap: '#ff0000',
+        terrain: '#a0a0a0',
+        oneWay: '#00ffff',
+        door: '#800080',
+        key: '#ffff00',
+        explored: '#00ff00',
+        frontier: '#ffa500',
+        path: '#ff0000',
+        unreachable: '#ff0000'
+      },
+      startShape: 'circle',
+      goalShape: 'square',
+      showGridLines: true
+    }
+  },
+  {
+    // Okabe-Ito palette, which stays distinct under the common forms of colour blindness;
+    // roles past its eight colours get a lighter or darker shade of one of them
+    id: 'colorblind',
+    label: 'Colour-blind safe',
+    theme: {
+      colors: {
+        wall: '#000000',
+        walkable: '#ffffff',
+        start: '#0072b2',
+        goal: '#e69f00',
+        grid: '#e5e7eb',
+        trap: '#d55e00',
+        terrain: '#f0e442',
+        oneWay: '#56b4e9',
+        door: '#cc79a7',
+        key: '#8f8500',
+        explored: '#c6e4f6',
+        frontier: '#f5d38a',
+        path: '#009e73',
+        unreachable: '#8a3b00'
+      },
+      startShape: 'circle',
+      goalShape: 'diamond',
+      showGridLines: true
+    }
+  },
+];
+
+export const DEFAULT_THEME: Theme = { preset: THEME_PRESETS[0].id, ...THEME_PRESETS[0].theme };
+
+
+export function getPresetTheme(id: string): Theme {
+  const preset = THEME_PRESETS.find(option => option.id === id) ?? THEME_PRESETS[0];
+  return { preset: preset.id, ...preset.theme };
+}
+
+
+function isHexColor(value: unknown): value is string {
+  return typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
+}
+
+
+function isMarkerShape(value: unknown): value is MarkerShape {
+  return MARKER_SHAPES.some(shape => shape.value === value);
+}
+
+
+// anything missing or malformed in a stored theme falls back to the default
+function parseTheme(value: unknown): Theme {
+  if (typeof value !== 'object' || value === null) {
+    return DEFAULT_THEME;
+  }
+
+  const stored = value as Partial<Record<keyof Theme, unknown>>;
+  const storedColors = (typeof stored.colors === 'object' && stored.colors !== null ? stored.colors : {}) as Record<string, unknown>;
+  const colors = { ...DEFAULT_THEME.colors };
+  COLOR_LABELS.forEach(({ key }) => {
+    const color = storedColors[key];
+    if (isHexColor(color)) {
+      colors[key] = color;
+    }
+  });
+
+  return {
+    preset: typeof stored.preset === 'string' ? stored.preset : CUSTOM_PRESET,
+    colors,
+    startShape: isMarkerShape(stored.startShape) ? stored.startShape : DEFAULT_THEME.startShape,
+    goalShape: isMarkerShape(stored.goalShape) ? stored.goalShape : DEFAULT_THEME.goalShape,
+    showGridLines: typeof stored.showGridLines === 'boolean' ? stored.showGridLines : DEFAULT_THEME.showGridLines
+  };
+}
+
+
+// the theme is read synchronously on startup so the first frame is already drawn in it
+export function loadTheme(): Theme {
+  try {
+    const text = localStorage.getItem(STORAGE_KEY);
+    return text ? parseTheme(JSON.parse(text)) : DEFAULT_THEME;
+  } catch {
+    return DEFAULT_THEME;
+  }
+}
+
+
+export function saveTheme(theme: Theme) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(theme));
+  } catch (err) {
+    console.error('Could not save the theme:', err);
+  }
+}
+
+
+// black or white, whichever reads better on the given #rrggbb colour
+export function getContrastColor(color: string): string {
+  const r = parseInt(color.slice(1, 3), 16);
+  const g = parseInt(color.slice(3, 5), 16);
+  const b = parseInt(color.slice(5, 7), 16);
+  return 0.299 * r + 0.587 * g + 0.114 * b > 150 ? '#000000' : '#ffffff';
+}
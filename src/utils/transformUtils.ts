@@ -0,0 +1,67 @@
+import type { CellValue, Direction, Marker, Position } from '@/types';
+import { CELL_TYPES, getCellType } from '@/utils/cellTypes';
+
+export type GridTransform = 'rotate-cw' | 'rotate-ccw' | 'flip-horizontal' | 'flip-vertical' | 'transpose';
+
+// one-way arrows turn with the cells so they keep pointing along the same corridor
+const DIRECTION_MAP: Record<GridTransform, Record<Direction, Direction>> = {
+  'rotate-cw': { up: 'right', right: 'down', down: 'left', left: 'up' },
+  'rotate-ccw': { up: 'left', right: 'up', down: 'right', left: 'down' },
+  'flip-horizontal': { up: 'up', right: 'left', down: 'down', left: 'right' },
+  'flip-vertical': { up: 'down', right: 'right', down: 'up', left: 'left' },
+  transpose: { up: 'left', right: 'down', down: 'right', left: 'up' },
+};
+
+
+export function swapsDimensions(transform: GridTransform): boolean {
+  return transform === 'rotate-cw' || transform === 'rotate-ccw' || transform === 'transpose';
+}
+
+
+export function transformCellValue(value: CellValue, transform: GridTransform): CellValue {
+  const direction = getCellType(value).direction;
+  if (!direction) return value;
+
+  const turned = DIRECTION_MAP[transform][direction];
+  return CELL_TYPES.find(cell => cell.kind === 'oneway' && cell.direction === turned)!.value;
+}
+
+
+// where (row, col) of a rows x cols block ends up after the transform
+export function transformPosition(pos: Position, rows: number, cols: number, transform: GridTransform): Position {
+  switch (transform) {
+    case 'rotate-cw':
+      return { row: pos.col, col: rows - 1 - pos.row };
+    case 'rotate-ccw':
+      return { row: cols - 1 - pos.col, col: pos.row };
+    case 'flip-horizontal':
+      return { row: pos.row, col: cols - 1 - pos.col };
+    case 'flip-vertical':
+      return { row: rows - 1 - pos.row, col: pos.col };
+    case 'transpose':
+      return { row: pos.col, col: pos.row };
+  }
+}
+
+
+export function transformCells(cells: CellValue[][], transform: GridTransform): CellValue[][] {
+  const rows = cells.length;
+  const cols = cells[0]?.length || 0;
+  const outRows = swapsDimensions(transform) ? cols : rows;
+  const outCols = swapsDimensions(transform) ? rows : cols;
+  const result: CellValue[][] = Array.from({ length: outRows }, () => new Array<CellValue>(outCols));
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const target = transformPosition({ row, col }, rows, cols, transform);
+      result[target.row][target.col] = transformCellValue(cells[row][col], transform);
+    }
+  }
+
+  return result;
+}
+
+
+export function transformMarkers(markers: Marker[], rows: number, cols: number, transform: GridTransform): Marker[] {
+  return markers.map(marker => ({ ...marker, ...transformPosition(marker, rows, cols, transform) }));
+}
@@ -0,0 +1,465 @@
+import type { CellValue, Marker, MarkerShape, Position, Theme } from '@/types';
+import { getCellType } from '@/utils/cellTypes';
+import { getCellColor } from '@/utils/canvasRenderer';
+import { solveMaze } from '@/utils/pathfinding';
+import { getContrastColor } from '@/utils/themes';
+import { deflateZlib } from '@/utils/zipUtils';
+
+export type VectorWallStyle = 'filled' | 'outline';
+export type VectorMarkerStyle = 'shapes' | 'letters' | 'none';
+
+// sizes are in svg user units, which are points in the pdf
+export interface VectorExportOptions {
+  cellSize: number;
+  margin: number;
+  wallStyle: VectorWallStyle;
+  gridLines: boolean;
+  markerStyle: VectorMarkerStyle;
+  coordinates: boolean;
+  solutionPath: boolean;
+}
+
+export const DEFAULT_VECTOR_OPTIONS: VectorExportOptions = {
+  cellSize: 12,
+  margin: 12,
+  wallStyle: 'filled',
+  gridLines: false,
+  markerStyle: 'shapes',
+  coordinates: false,
+  solutionPath: false
+};
+
+type Point = [number, number];
+
+// in cells, not units
+interface CellRect {
+  col: number;
+  row: number;
+  width: number;
+  height: number;
+  fill: string;
+}
+
+type Shape =
+  | { type: 'rect'; x: number; y: number; width: number; height: number; fill: string }
+  | { type: 'polygon'; points: Point[]; fill: string }
+  | { type: 'circle'; cx: number; cy: number; r: number; fill: string }
+  | { type: 'lines'; segments: [Point, Point][]; stroke: string; width: number }
+  | { type: 'polyline'; points: Point[]; stroke: string; width: number }
+  | { type: 'text'; x: number; y: number; size: number; text: string; fill: string; anchor: 'middle' | 'end' };
+
+// the drawing both writers share: y grows downwards, as on the canvas
+interface VectorScene {
+  width: number;
+  height: number;
+  shapes: Shape[];
+}
+
+const LABEL_STEPS = [1, 2, 5, 10, 20, 50, 100];
+const FONT_FAMILY = 'Helvetica, Arial, sans-serif';
+
+
+// horizontal runs of one colour, stacked into taller rectangles while the row below repeats them
+function mergeCellRects(grid: CellValue[][], colorOf: (cell: CellValue) => string | null): CellRect[] {
+  const rects: CellRect[] = [];
+  let open = new Map<string, CellRect>();
+
+  grid.forEach((cells, row) => {
+    const next = new Map<string, CellRect>();
+    let col = 0;
+    while (col < cells.length) {
+      const fill = colorOf(cells[col]);
+      let end = col + 1;
+      while (end < cells.length && colorOf(cells[end]) === fill) end++;
+
+      if (fill !== null) {
+        const key = `${col}:${end}:${fill}`;
+        const rect = open.get(key);
+        if (rect) {
+          rect.height++;
+          open.delete(key);
+          next.set(key, rect);
+        } else {
+          next.set(key, { col, row, width: end - col, height: 1, fill });
+        }
+      }
+      col = end;
+    }
+
+    rects.push(...open.values());
+    open = next;
+  });
+
+  rects.push(...open.values());
+  return rects;
+}
+
+
+// wall boundary edges, joined into the longest straight segments
+function getWallOutline(grid: CellValue[][]): [Point, Point][] {
+  const rows = grid.length;
+  const cols = grid[0]?.length || 0;
+  const isWall = (row: number, col: number) =>
+    row >= 0 && row < rows && col >= 0 && col < cols && !getCellType(grid[row][col]).passable;
+  const segments: [Point, Point][] = [];
+
+  // horizontal edges sit on line y=row, between row-1 and row
+  for (let row = 0; row <= rows; row++) {
+    let start: number | null = null;
+    for (let col = 0; col <= cols; col++) {
+      const edge = col < cols && isWall(row - 1, col) !== isWall(row, col);
+      if (edge && start === null) start = col;
+      if (!edge && start !== null) {
+        segments.push([[start, row], [col, row]]);
+        start = null;
+      }
+    }
+  }
+
+  for (let col = 0; col <= cols; col++) {
+    let start: number | null = null;
+    for (let row = 0; row <= rows; row++) {
+      const edge = row < rows && isWall(row, col - 1) !== isWall(row, col);
+      if (edge && start === null) start = row;
+      if (!edge && start !== null) {
+        segments.push([[col, start], [col, row]]);
+        start = null;
+      }
+    }
+  }
+
+  return segments;
+}
+
+
+function markerShape(shape: MarkerShape, x: number, y: number, radius: number, fill: string): Shape {
+  switch (shape) {
+    case 'square': {
+      const half = radius * 0.9;
+      return { type: 'rect', x: x - half, y: y - half, width: half * 2, height: half * 2, fill };
+    }
+    case 'diamond':
+      return {
+        type: 'polygon',
+        points: [[x, y - radius * 1.2], [x + radius * 1.2, y], [x, y + radius * 1.2], [x - radius * 1.2, y]],
+        fill
+      };
+    case 'triangle':
+      return {
+        type: 'polygon',
+        points: [[x, y - radius * 1.2], [x + radius * 1.2, y + radius * 0.9], [x - radius * 1.2, y + radius * 0.9]],
+        fill
+      };
+    default:
+      return { type: 'circle', cx: x, cy: y, r: radius, fill };
+  }
+}
+
+
+// the smallest label spacing that keeps three-digit numbers from running into each other
+function getLabelStep(cellSize: number, fontSize: number): number {
+  return LABEL_STEPS.find(step => step * cellSize >= fontSize * 2) ?? LABEL_STEPS[LABEL_STEPS.length - 1];
+}
+
+
+function buildScene(
+  grid: CellValue[][],
+  starts: Marker[],
+  goals: Marker[],
+  theme: Theme,
+  options: VectorExportOptions
+): VectorScene {
+  const { colors } = theme;
+  const rows = grid.length;
+  const cols = grid[0]?.length || 0;
+  const size = options.cellSize;
+  const fontSize = Math.min(10, Math.max(5, size * 0.6));
+  // room for the row numbers on the left and column numbers on top
+  const gutterX = options.coordinates ? fontSize * 2.2 : 0;
+  const gutterY = options.coordinates ? fontSize * 1.4 : 0;
+  const left = options.margin + gutterX;
+  const top = options.margin + gutterY;
+  const px = (col: number) => left + col * size;
+  const py = (row: number) => top + row * size;
+  const center = (pos: Position): Point => [px(pos.col) + size / 2, py(pos.row) + size / 2];
+  const shapes: Shape[] = [];
+
+  shapes.push({ type: 'rect', x: left, y: top, width: cols * size, height: rows * size, fill: colors.walkable });
+
+  const outlined = options.wallStyle === 'outline';
+  mergeCellRects(grid, (cell) => {
+    const color = getCellColor(cell, colors);
+    if (color === colors.walkable) return null;
+    return outlined && getCellType(cell).kind === 'wall' ? null : color;
+  }).forEach(rect => shapes.push({
+    type: 'rect', x: px(rect.col), y: py(rect.row), width: rect.width * size, height: rect.height * size, fill: rect.fill
+  }));
+
+  // the same arrows, key diamonds and door letters the canvas draws
+  grid.forEach((cells, row) => cells.forEach((value, col) => {
+    const cell = getCellType(value);
+    if (cell.kind !== 'oneway' && cell.kind !== 'door' && cell.kind !== 'key') return;
+    const [cx, cy] = center({ row, col });
+    const half = size * 0.3;
+
+    if (cell.direction) {
+      const tip: Record<string, Point[]> = {
+        up: [[cx, cy - half], [cx + half, cy + half * 0.6], [cx - half, cy + half * 0.6]],
+        down: [[cx, cy + half], [cx - half, cy - half * 0.6], [cx + half, cy - half * 0.6]],
+        left: [[cx - half, cy], [cx + half * 0.6, cy - half], [cx + half * 0.6, cy + half]],
+        right: [[cx + half, cy], [cx - half * 0.6, cy + half], [cx - half * 0.6, cy - half]],
+      };
+      shapes.push({ type: 'polygon', points: tip[cell.direction], fill: colors.wall });
+      return;
+    }
+    if (cell.kind === 'key') {
+      shapes.push({ type: 'polygon', points: [[cx, cy - half], [cx + half, cy], [cx, cy + half], [cx - half, cy]], fill: colors.key });
+    }
+    shapes.push({
+      type: 'text', x: cx, y: cy, size: size * 0.4, text: cell.pair ?? '', anchor: 'middle',
+      fill: cell.kind === 'door' ? colors.walkable : colors.wall
+    });
+  }));
+
+  if (options.gridLines) {
+    const segments: [Point, Point][] = [];
+    for (let col = 0; col <= cols; col++) segments.push([[px(col), py(0)], [px(col), py(rows)]]);
+    for (let row = 0; row <= rows; row++) segments.push([[px(0), py(row)], [px(cols), py(row)]]);
+    shapes.push({ type: 'lines', segments, stroke: colors.grid, width: Math.max(0.25, size / 24) });
+  }
+
+  if (outlined) {
+    const segments = getWallOutline(grid).map(([a, b]): [Point, Point] => [[px(a[0]), py(a[1])], [px(b[0]), py(b[1])]]);
+    shapes.push({ type: 'lines', segments, stroke: colors.wall, width: Math.max(0.5, size / 8) });
+  }
+
+  if (options.solutionPath && starts.length > 0 && goals.length > 0) {
+    const { path } = solveMaze(grid, starts[0], goals, 'dijkstra');
+    if (path.length > 1) {
+      shapes.push({ type: 'polyline', points: path.map(center), stroke: colors.path, width: Math.max(1, size / 5) });
+    }
+  }
+
+  if (options.markerStyle !== 'none') {
+    const markerGroups: [Marker[], string, MarkerShape][] = [
+      [goals, colors.goal, theme.goalShape],
+      [starts, colors.start, theme.startShape],
+    ];
+    markerGroups.forEach(([markers, color, shape]) => markers.forEach(marker => {
+      const [x, y] = center(marker);
+      // long labels don't fit in a cell, so those are shortened to their first letter
+      const text = marker.label.length > 2 ? marker.label.charAt(0) : marker.label;
+      if (options.markerStyle === 'shapes') {
+        const radius = size / 3;
+        shapes.push(markerShape(shape, x, y, radius, color));
+        shapes.push({ type: 'text', x, y, size: radius * (text.length > 1 ? 0.9 : 1.2), text, fill: getContrastColor(color), anchor: 'middle' });
+      } else {
+        shapes.push({ type: 'text', x, y, size: size * (text.length > 1 ? 0.5 : 0.7), text, fill: color, anchor: 'middle' });
+      }
+    }));
+  }
+
+  if (options.coordinates) {
+    const step = getLabelStep(size, fontSize);
+    for (let col = 0; col < cols; col += step) {
+      shapes.push({ type: 'text', x: px(col) + size / 2, y: top - fontSize * 0.7, size: fontSize, text: String(col), fill: '#4b5563', anchor: 'middle' });
+    }
+    for (let row = 0; row < rows; row += step) {
+      shapes.push({ type: 'text', x: left - fontSize * 0.4, y: py(row) + size / 2, size: fontSize, text: String(row), fill: '#4b5563', anchor: 'end' });
+    }
+  }
+
+  return {
+    width: left + cols * size + options.margin,
+    height: top + rows * size + options.margin,
+    shapes
+  };
+}
+
+
+function fmt(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+
+function shapeToSvg(shape: Shape): string {
+  switch (shape.type) {
+    case 'rect':
+      return `<rect x="${fmt(shape.x)}" y="${fmt(shape.y)}" width="${fmt(shape.width)}" height="${fmt(shape.height)}" fill="${shape.fill}"/>`;
+    case 'polygon':
+      return `<polygon points="${shape.points.map(([x, y]) => `${fmt(x)},${fmt(y)}`).join(' ')}" fill="${shape.fill}"/>`;
+    case 'circle':
+      return `<circle cx="${fmt(shape.cx)}" cy="${fmt(shape.cy)}" r="${fmt(shape.r)}" fill="${shape.fill}"/>`;
+    case 'lines': {
+      const d = shape.segments.map(([a, b]) => `M${fmt(a[0])} ${fmt(a[1])}L${fmt(b[0])} ${fmt(b[1])}`).join('');
+      return `<path d="${d}" fill="none" stroke="${shape.stroke}" stroke-width="${fmt(shape.width)}" stroke-linecap="square"/>`;
+    }
+    case 'polyline':
+      return `<polyline points="${shape.points.map(([x, y]) => `${fmt(x)},${fmt(y)}`).join(' ')}" fill="none" ` +
+        `stroke="${shape.stroke}" stroke-width="${fmt(shape.width)}" stroke-linecap="round" stroke-linejoin="round"/>`;
+    case 'text':
+      return `<text x="${fmt(shape.x)}" y="${fmt(shape.y)}" dy="0.35em" font-size="${fmt(shape.size)}" ` +
+        `text-anchor="${shape.anchor}" fill="${shape.fill}">${escapeXml(shape.text)}</text>`;
+  }
+}
+
+
+export function exportToSVG(
+  grid: CellValue[][],
+  starts: Marker[],
+  goals: Marker[],
+  theme: Theme,
+  options: VectorExportOptions = DEFAULT_VECTOR_OPTIONS
+): string {
+  const scene = buildScene(grid, starts, goals, theme, options);
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${fmt(scene.width)}" height="${fmt(scene.height)}" ` +
+      `viewBox="0 0 ${fmt(scene.width)} ${fmt(scene.height)}" font-family="${FONT_FAMILY}" font-weight="bold">`,
+    `<rect width="100%" height="100%" fill="#ffffff"/>`,
+    ...scene.shapes.map(shapeToSvg),
+    '</svg>',
+    ''
+  ].join('\n');
+}
+
+
+// Helvetica-Bold advance widths per 1pt of font size, close enough to centre short labels
+function estimateTextWidth(text: string, size: number): number {
+  let width = 0;
+  for (const char of text) {
+    if (/[0-9]/.test(char)) width += 0.556;
+    else if (/[A-Z]/.test(char)) width += 0.722;
+    else if (/[a-z]/.test(char)) width += 0.611;
+    else width += 0.5;
+  }
+  return width * size;
+}
+
+
+function pdfColor(color: string, operator: 'rg' | 'RG'): string {
+  const channel = (offset: number) => fmt(parseInt(color.slice(offset, offset + 2), 16) / 255);
+  return `${channel(1)} ${channel(3)} ${channel(5)} ${operator}`;
+}
+
+
+// the standard fonts only cover latin-1, so anything else becomes "?"
+function escapePdfText(text: string): string {
+  return [...text].map(char => (char.charCodeAt(0) > 255 ? '?' : char)).join('').replace(/[\\()]/g, '\\$&');
+}
+
+
+// the content and the font's WinAnsiEncoding take one byte per character; escapePdfText has
+// already replaced anything above 255
+function encodeLatin1(text: string): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) {
+    bytes[i] = text.charCodeAt(i);
+  }
+  return bytes;
+}
+
+
+// four cubic beziers with the usual 0.5523 control distance
+function pdfCircle(cx: number, cy: number, r: number): string {
+  const k = r * 0.5523;
+  return [
+    `${fmt(cx + r)} ${fmt(cy)} m`,
+    `${fmt(cx + r)} ${fmt(cy + k)} ${fmt(cx + k)} ${fmt(cy + r)} ${fmt(cx)} ${fmt(cy + r)} c`,
+    `${fmt(cx - k)} ${fmt(cy + r)} ${fmt(cx - r)} ${fmt(cy + k)} ${fmt(cx - r)} ${fmt(cy)} c`,
+    `${fmt(cx - r)} ${fmt(cy - k)} ${fmt(cx - k)} ${fmt(cy - r)} ${fmt(cx)} ${fmt(cy - r)} c`,
+    `${fmt(cx + k)} ${fmt(cy - r)} ${fmt(cx + r)} ${fmt(cy - k)} ${fmt(cx + r)} ${fmt(cy)} c`,
+    'f'
+  ].join('\n');
+}
+
+
+function shapeToPdf(shape: Shape): string {
+  switch (shape.type) {
+    case 'rect':
+      return `${pdfColor(shape.fill, 'rg')}\n${fmt(shape.x)} ${fmt(shape.y)} ${fmt(shape.width)} ${fmt(shape.height)} re f`;
+    case 'polygon':
+      return `${pdfColor(shape.fill, 'rg')}\n` +
+        shape.points.map(([x, y], i) => `${fmt(x)} ${fmt(y)} ${i === 0 ? 'm' : 'l'}`).join('\n') + '\nh f';
+    case 'circle':
+      return `${pdfColor(shape.fill, 'rg')}\n${pdfCircle(shape.cx, shape.cy, shape.r)}`;
+    case 'lines':
+      return `${pdfColor(shape.stroke, 'RG')}\n${fmt(shape.width)} w 2 J\n` +
+        shape.segments.map(([a, b]) => `${fmt(a[0])} ${fmt(a[1])} m ${fmt(b[0])} ${fmt(b[1])} l`).join('\n') + '\nS';
+    case 'polyline':
+      return `${pdfColor(shape.stroke, 'RG')}\n${fmt(shape.width)} w 1 J 1 j\n` +
+        shape.points.map(([x, y], i) => `${fmt(x)} ${fmt(y)} ${i === 0 ? 'm' : 'l'}`).join('\n') + '\nS';
+    case 'text': {
+      const width = estimateTextWidth(shape.text, shape.size);
+      const x = shape.anchor === 'middle' ? shape.x - width / 2 : shape.x - width;
+      // the page is flipped to put y downwards, so the text matrix flips glyphs back upright
+      return `${pdfColor(shape.fill, 'rg')}\nBT /F1 ${fmt(shape.size)} Tf 1 0 0 -1 ${fmt(x)} ${fmt(shape.y + shape.size * 0.35)} Tm ` +
+        `(${escapePdfText(shape.text)}) Tj ET`;
+    }
+  }
+}
+
+
+// a single-page PDF 1.4 sized to the drawing, one point per svg unit
+export async function exportToPDF(
+  grid: CellValue[][],
+  starts: Marker[],
+  goals: Marker[],
+  theme: Theme,
+  options: VectorExportOptions = DEFAULT_VECTOR_OPTIONS
+): Promise<Uint8Array<ArrayBuffer>> {
+  const scene = buildScene(grid, starts, goals, theme, options);
+  const content = encodeLatin1([
+    `1 0 0 -1 0 ${fmt(scene.height)} cm`,
+    '1 1 1 rg',
+    `0 0 ${fmt(scene.width)} ${fmt(scene.height)} re f`,
+    ...scene.shapes.map(shapeToPdf),
+    ''
+  ].join('\n'));
+  const compressed = typeof CompressionStream !== 'undefined' ? await deflateZlib(content) : null;
+  const stream = compressed ?? content;
+
+  const objects: (string | Uint8Array)[][] = [
+    ['<< /Type /Catalog /Pages 2 0 R >>'],
+    ['<< /Type /Pages /Kids [3 0 R] /Count 1 >>'],
+    [`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${fmt(scene.width)} ${fmt(scene.height)}] ` +
+      '/Resources << /Font << /F1 5 0 R >> >> /Contents 4 0 R >>'],
+    [`<< /Length ${stream.length}${compressed ? ' /Filter /FlateDecode' : ''} >>\nstream\n`, stream, '\nendstream'],
+    ['<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'],
+  ];
+
+  const parts: Uint8Array[] = [];
+  let length = 0;
+  const write = (part: string | Uint8Array) => {
+    const bytes = typeof part === 'string' ? encodeLatin1(part) : part;
+    parts.push(bytes);
+    length += bytes.length;
+  };
+
+  // the binary comment marks the file as binary for transfer tools
+  write('%PDF-1.4\n%âã\n');
+  const offsets = objects.map((object, index) => {
+    const offset = length;
+    write(`${index + 1} 0 obj\n`);
+    object.forEach(write);
+    write('\nendobj\n');
+    return offset;
+  });
+
+  const xrefOffset = length;
+  write(`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`);
+  offsets.forEach(offset => write(`${String(offset).padStart(10, '0')} 00000 n \n`));
+  write(`trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  const pdf = new Uint8Array(length);
+  let position = 0;
+  parts.forEach(part => {
+    pdf.set(part, position);
+    position += part.length;
+  });
+  return pdf;
+}
@@ -0,0 +1,91 @@
+import type { CanvasDimensions, Position, Viewport } from '@/types';
+
+export const MAX_ZOOM_CELL_SIZE = 80;
+const ZOOM_STEP = 1.25;
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+
+export function fitViewport(dimensions: CanvasDimensions): Viewport {
+  return { cellSize: dimensions.cellSize, offsetX: 0, offsetY: 0 };
+}
+
+
+export function isZoomedIn(view: Viewport, dimensions: CanvasDimensions): boolean {
+  return view.cellSize > dimensions.cellSize;
+}
+
+
+// keeps the grid covering the canvas so it can't be panned out of sight
+export function clampViewport(view: Viewport, dimensions: CanvasDimensions): Viewport {
+  const minX = Math.min(0, dimensions.canvasWidth - dimensions.cols * view.cellSize);
+  const minY = Math.min(0, dimensions.canvasHeight - dimensions.rows * view.cellSize);
+
+  return {
+    cellSize: view.cellSize,
+    offsetX: clamp(Math.round(view.offsetX), minX, 0),
+    offsetY: clamp(Math.round(view.offsetY), minY, 0)
+  };
+}
+
+
+// cell sizes stay whole pixels so cells and grid lines line up exactly at every zoom level;
+// the point under (anchorX, anchorY) stays put
+export function zoomViewport(
+  view: Viewport,
+  dimensions: CanvasDimensions,
+  direction: 1 | -1,
+  anchorX: number,
+  anchorY: number
+): Viewport {
+  const next = direction > 0
+    ? Math.max(view.cellSize + 1, Math.round(view.cellSize * ZOOM_STEP))
+    : Math.min(view.cellSize - 1, Math.round(view.cellSize / ZOOM_STEP));
+  const cellSize = clamp(next, dimensions.cellSize, Math.max(dimensions.cellSize, MAX_ZOOM_CELL_SIZE));
+  if (cellSize === view.cellSize) return view;
+
+  const scale = cellSize / view.cellSize;
+  return clampViewport({
+    cellSize,
+    offsetX: anchorX - (anchorX - view.offsetX) * scale,
+    offsetY: anchorY - (anchorY - view.offsetY) * scale
+  }, dimensions);
+}
+
+
+export function panViewport(view: Viewport, dimensions: CanvasDimensions, dx: number, dy: number): Viewport {
+  return clampViewport({ ...view, offsetX: view.offsetX + dx, offsetY: view.offsetY + dy }, dimensions);
+}
+
+
+// row and col may be fractional, e.g. a point picked on the minimap
+export function centerViewportOn(view: Viewport, dimensions: CanvasDimensions, row: number, col: number): Viewport {
+  return clampViewport({
+    cellSize: view.cellSize,
+    offsetX: dimensions.canvasWidth / 2 - col * view.cellSize,
+    offsetY: dimensions.canvasHeight / 2 - row * view.cellSize
+  }, dimensions);
+}
+
+
+// (x, y) are canvas pixels; returns null outside the grid
+export function viewToCell(view: Viewport, dimensions: CanvasDimensions, x: number, y: number): Position | null {
+  const col = Math.floor((x - view.offsetX) / view.cellSize);
+  const row = Math.floor((y - view.offsetY) / view.cellSize);
+
+  if (row >= 0 && row < dimensions.rows && col >= 0 && col < dimensions.cols) {
+    return { row, col };
+  }
+  return null;
+}
+
+
+// inclusive range of the cells at least partly on screen
+export function getVisibleCells(view: Viewport, dimensions: CanvasDimensions) {
+  return {
+    firstRow: Math.max(0, Math.floor(-view.offsetY / view.cellSize)),
+    lastRow: Math.min(dimensions.rows - 1, Math.floor((dimensions.canvasHeight - view.offsetY - 1) / view.cellSize)),
+    firstCol: Math.max(0, Math.floor(-view.offsetX / view.cellSize)),
+    lastCol: Math.min(dimensions.cols - 1, Math.floor((dimensions.canvasWidth - view.offsetX - 1) / view.cellSize))
+  };
+}
@@ -0,0 +1,147 @@
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+// entries carry no timestamps of their own; 1980-01-01 is the earliest date the format can hold
+const ZIP_DATE = (1 << 5) | 1;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+
+export function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+
+interface ZipRecord {
+  name: Uint8Array;
+  data: Uint8Array;
+  crc: number;
+  size: number;
+  method: number;
+}
+
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+
+
+function writeZip(records: ZipRecord[]): Uint8Array<ArrayBuffer> {
+  const localSize = records.reduce((sum, record) => sum + 30 + record.name.length + record.data.length, 0);
+  const centralSize = records.reduce((sum, record) => sum + 46 + record.name.length, 0);
+
+  const bytes = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(bytes.buffer);
+  const offsets: number[] = [];
+  let offset = 0;
+
+  records.forEach((record) => {
+    offsets.push(offset);
+    view.setUint32(offset, 0x04034b50, true);
+    view.setUint16(offset + 4, 20, true);
+    // general purpose flag bit 11: names are UTF-8
+    view.setUint16(offset + 6, 0x0800, true);
+    view.setUint16(offset + 8, record.method, true);
+    view.setUint16(offset + 12, ZIP_DATE, true);
+    view.setUint32(offset + 14, record.crc, true);
+    view.setUint32(offset + 18, record.data.length, true);
+    view.setUint32(offset + 22, record.size, true);
+    view.setUint16(offset + 26, record.name.length, true);
+    bytes.set(record.name, offset + 30);
+    bytes.set(record.data, offset + 30 + record.name.length);
+    offset += 30 + record.name.length + record.data.length;
+  });
+
+  const centralStart = offset;
+  records.forEach((record, i) => {
+    view.setUint32(offset, 0x02014b50, true);
+    view.setUint16(offset + 4, 20, true);
+    view.setUint16(offset + 6, 20, true);
+    view.setUint16(offset + 8, 0x0800, true);
+    view.setUint16(offset + 10, record.method, true);
+    view.setUint16(offset + 14, ZIP_DATE, true);
+    view.setUint32(offset + 16, record.crc, true);
+    view.setUint32(offset + 20, record.data.length, true);
+    view.setUint32(offset + 24, record.size, true);
+    view.setUint16(offset + 28, record.name.length, true);
+    view.setUint32(offset + 42, offsets[i], true);
+    bytes.set(record.name, offset + 46);
+    offset += 46 + record.name.length;
+  });
+
+  view.setUint32(offset, 0x06054b50, true);
+  view.setUint16(offset + 8, records.length, true);
+  view.setUint16(offset + 10, records.length, true);
+  view.setUint32(offset + 12, offset - centralStart, true);
+  view.setUint32(offset + 16, centralStart, true);
+
+  return bytes;
+}
+
+
+// a plain zip archive with every entry stored uncompressed; the format caps it at 65535 entries and 4 GB
+export function createZip(entries: ZipEntry[]): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  return writeZip(entries.map(entry => ({
+    name: encoder.encode(entry.name),
+    data: entry.data,
+    crc: crc32(entry.data),
+    size: entry.data.length,
+    method: METHOD_STORE
+  })));
+}
+
+
+export async function deflateRaw(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer>> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+
+// zlib-wrapped, as PDF's FlateDecode expects
+export async function deflateZlib(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer>> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+
+export async function inflateRaw(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer>> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+
+// deflates each entry with the browser's CompressionStream, falling back to storing
+// entries where it isn't available or doesn't make them smaller
+export async function createCompressedZip(entries: ZipEntry[]): Promise<Uint8Array<ArrayBuffer>> {
+  const encoder = new TextEncoder();
+  const canCompress = typeof CompressionStream !== 'undefined';
+
+  const records = await Promise.all(entries.map(async (entry): Promise<ZipRecord> => {
+    const compressed = canCompress ? await deflateRaw(new Uint8Array(entry.data)) : null;
+    const useDeflate = compressed !== null && compressed.length < entry.data.length;
+    return {
+      name: encoder.encode(entry.name),
+      data: useDeflate ? compressed : entry.data,
+      crc: crc32(entry.data),
+      size: entry.data.length,
+      method: useDeflate ? METHOD_DEFLATE : METHOD_STORE
+    };
+  }));
+
+  return writeZip(records);
+}
@@ -0,0 +1,19 @@
+import type { BatchExportOptions, BatchProgress, BatchResult } from '@/utils/batchExport';
+import { runBatchExport } from '@/utils/batchExport';
+
+export type BatchWorkerMessage =
+  | ({ type: 'progress' } & BatchProgress)
+  | ({ type: 'done' } & BatchResult)
+  | { type: 'error'; message: string };
+
+// one batch per worker; the panel terminates the worker to cancel
+self.onmessage = (e: MessageEvent<BatchExportOptions>) => {
+  const post = (message: BatchWorkerMessage, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+
+  try {
+    const result = runBatchExport(e.data, (progress) => post({ type: 'progress', ...progress }));
+    post({ type: 'done', ...result }, [result.data.buffer]);
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};